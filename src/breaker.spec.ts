@@ -0,0 +1,34 @@
+import { CircuitBreaker } from './breaker';
+
+test('open after consecutive failures', () => {
+  const breaker = new CircuitBreaker({ threshold: 2 }, async () => true);
+  breaker.failure();
+  breaker.success();
+  breaker.failure();
+  expect(breaker.state).toBe('closed');
+
+  breaker.failure();
+  expect(breaker.state).toBe('open');
+  expect(() => breaker.check()).toThrow(
+    expect.objectContaining({
+      statusCode: 503,
+      headers: { 'retry-after': '30' },
+    }),
+  );
+});
+
+test('probe recovery after cooldown', async () => {
+  const probe = jest.fn(async () => true);
+  const breaker = new CircuitBreaker({ threshold: 1, cooldown: 10 }, probe);
+  breaker.failure();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  expect(() => breaker.check()).toThrow('Circuit Open');
+  expect(breaker.state).toBe('half-open');
+  expect(() => breaker.check()).toThrow('Circuit Open');
+  expect(probe).toBeCalledTimes(1);
+
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(breaker.state).toBe('closed');
+  expect(() => breaker.check()).not.toThrow();
+});
@@ -0,0 +1,61 @@
+import type { BreakerState, IBreakerOptions } from './interface';
+
+import createError = require('http-errors');
+import httpStatus = require('http-status');
+
+function unavailable(retryAfter: number) {
+  return createError(httpStatus.SERVICE_UNAVAILABLE, 'Circuit Open', {
+    headers: { 'retry-after': String(retryAfter) },
+  });
+}
+
+/**
+ * fail fast while a queue is not processing jobs,
+ * probing recovery with a health job after cooldown
+ */
+export class CircuitBreaker {
+  private state_: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly options: IBreakerOptions,
+    private readonly probe: () => Promise<boolean>,
+  ) {}
+
+  get state() {
+    return this.state_;
+  }
+
+  /**
+   * throw 503 if the circuit is open
+   */
+  check() {
+    if (this.state_ === 'closed') return;
+
+    const cooldown = this.options.cooldown || 30 * 1000;
+    const remaining = this.openedAt + cooldown - Date.now();
+    if (this.state_ === 'open' && remaining <= 0) {
+      this.state_ = 'half-open';
+      this.probe()
+        .catch(() => false)
+        .then((healthy) => (healthy ? this.success() : this.open()));
+    }
+    throw unavailable(Math.max(Math.ceil(remaining / 1000), 1));
+  }
+
+  success() {
+    this.state_ = 'closed';
+    this.failures = 0;
+  }
+
+  failure() {
+    this.failures += 1;
+    if (this.failures >= (this.options.threshold || 5)) this.open();
+  }
+
+  private open() {
+    this.state_ = 'open';
+    this.openedAt = Date.now();
+  }
+}
@@ -0,0 +1,40 @@
+import { cacheKey, isShareable } from './cache';
+import { stripPrefix } from './utils';
+
+test('cache key ignores query order', () => {
+  expect(cacheKey('GET', 'items', '/items', { a: '1', b: '2' })).toBe(
+    cacheKey('GET', 'items', '/items', { b: '2', a: '1' }),
+  );
+  expect(cacheKey('GET', 'items', '/items', { a: '1' })).not.toBe(
+    cacheKey('GET', 'items', '/items', { a: '2' }),
+  );
+  expect(cacheKey('GET', 'items', '/items')).not.toBe(
+    cacheKey('HEAD', 'items', '/items'),
+  );
+});
+
+test('cache key differs between mappers stripping prefixes', () => {
+  const v1 = stripPrefix('/api/v1/users/1', '/api/v1/users');
+  const v2 = stripPrefix('/api/v2/users/1', '/api/v2/users');
+  expect(v1).toBe(v2);
+  expect(cacheKey('GET', 'users.v1', v1)).not.toBe(
+    cacheKey('GET', 'users.v2', v2),
+  );
+});
+
+test('only public cacheable results are shared', () => {
+  const cache = { private: false, maxAge: 60 };
+  expect(isShareable({ statusCode: 200, result: 1, cache })).toBe(true);
+  expect(isShareable({ statusCode: 200, result: 1 })).toBe(false);
+  expect(
+    isShareable({ statusCode: 200, result: 1, cache: { maxAge: 60 } }),
+  ).toBe(false);
+  expect(
+    isShareable({
+      statusCode: 200,
+      result: 1,
+      cache: { ...cache, noStore: true },
+    }),
+  ).toBe(false);
+  expect(isShareable({ statusCode: 404, error: 'Not Found' })).toBe(false);
+});
@@ -0,0 +1,141 @@
+import type { IResponse, IResult } from './interface';
+import type { Nullable } from './utils';
+import type { IncomingHttpHeaders } from 'http';
+
+import { createHash } from 'crypto';
+import httpStatus = require('http-status');
+import Redis from 'ioredis';
+
+const prefix = 'cache';
+
+// add member to tag set, extending but never shortening its expiry
+const tagScript = `
+  redis.call('SADD', KEYS[1], ARGV[1])
+  if redis.call('TTL', KEYS[1]) < tonumber(ARGV[2]) then
+    redis.call('EXPIRE', KEYS[1], ARGV[2])
+  end
+`;
+
+interface ICacheEntry {
+  result: IResult;
+  storedAt: number;
+}
+
+export interface ICacheHit {
+  result: IResult;
+  age: number;
+  stale: boolean;
+}
+
+function hash(value: string) {
+  return createHash('sha1').update(value).digest('hex');
+}
+
+function entryKey(key: string, vary: string[], headers: IncomingHttpHeaders) {
+  const values = vary.map((h) => [h, headers[h.toLocaleLowerCase()] || '']);
+  return `${key}:${hash(JSON.stringify(values))}`;
+}
+
+function tagKey(tag: string) {
+  return `${prefix}:tag:${tag}`;
+}
+
+/**
+ * cache key of a request, independent of query parameter order
+ * @param method string
+ * @param queue string handling the request, as url may be stripped of prefix
+ * @param url string
+ * @param query object
+ */
+export function cacheKey(
+  method: string,
+  queue: string,
+  url: string,
+  query: Record<string, any> = {},
+) {
+  const query_ = Object.keys(query)
+    .sort()
+    .map((k) => [k, query[k]]);
+  return `${prefix}:${hash(JSON.stringify([method, queue, url, query_]))}`;
+}
+
+/**
+ * whether a result can be shared between clients
+ * @param result IResponse
+ */
+export function isShareable(result: IResponse): result is IResult {
+  const cache = (result as IResult).cache;
+  return (
+    result.statusCode === httpStatus.OK &&
+    'result' in result &&
+    cache?.private === false &&
+    cache.maxAge > 0 &&
+    !cache.noCache &&
+    !cache.noStore
+  );
+}
+
+/**
+ * gateway response cache shared through redis,
+ * invalidated by tags from workers
+ */
+export class ResponseCache {
+  constructor(private readonly redis: Redis) {}
+
+  async get(
+    key: string,
+    headers: IncomingHttpHeaders,
+  ): Promise<Nullable<ICacheHit>> {
+    const vary = await this.redis.get(`${key}:vary`);
+    if (vary === null) return;
+    const entry = await this.redis.get(
+      entryKey(key, JSON.parse(vary), headers),
+    );
+    if (!entry) return;
+    const { result, storedAt } = JSON.parse(entry) as ICacheEntry;
+    const age = Math.floor((Date.now() - storedAt) / 1000);
+    return { result, age, stale: age >= result.cache.maxAge };
+  }
+
+  async set(key: string, headers: IncomingHttpHeaders, result: IResult) {
+    const {
+      maxAge,
+      staleWhileRevalidate = 0,
+      vary = [],
+      tags = [],
+    } = result.cache;
+    const ttl = maxAge + staleWhileRevalidate;
+    const entryKey_ = entryKey(key, vary, headers);
+    const entry: ICacheEntry = { result, storedAt: Date.now() };
+    await this.redis
+      .multi()
+      .set(`${key}:vary`, JSON.stringify(vary), 'EX', ttl)
+      .set(entryKey_, JSON.stringify(entry), 'EX', ttl)
+      .exec();
+    await Promise.all(
+      tags.map((tag) =>
+        this.redis.eval(tagScript, 1, tagKey(tag), entryKey_, ttl),
+      ),
+    );
+  }
+
+  /**
+   * acquire the right to revalidate a stale entry
+   * @param key string
+   * @param ttl number in milliseconds
+   */
+  async lock(key: string, ttl: number) {
+    return (await this.redis.set(`${key}:lock`, 1, 'PX', ttl, 'NX')) === 'OK';
+  }
+
+  /**
+   * drop all entries stored with any of the tags
+   * @param tags string[]
+   */
+  async invalidate(...tags: string[]) {
+    for (const tag of tags) {
+      const keys = await this.redis.smembers(tagKey(tag));
+      await this.redis.del(...keys, tagKey(tag));
+    }
+  }
+}
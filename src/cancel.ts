@@ -0,0 +1,50 @@
+import Redis from 'ioredis';
+
+const channel = 'cancel';
+
+interface ICancelMessage {
+  queue: string;
+  id: string;
+}
+
+/**
+ * tell workers to stop a job
+ * @param redis Redis
+ * @param queue string queue name
+ * @param id string job id
+ */
+export async function publishCancel(redis: Redis, queue: string, id: string) {
+  const message: ICancelMessage = { queue, id };
+  await redis.publish(channel, JSON.stringify(message));
+}
+
+/**
+ * abort signals of jobs running in this worker,
+ * aborted by cancellation published by gateways through redis
+ */
+export class CancelListener {
+  private readonly controllers: Record<string, AbortController> = {};
+
+  constructor(private readonly subscriber: Redis) {
+    subscriber.subscribe(channel);
+    subscriber.on('message', (channel_, message) => {
+      if (channel_ !== channel) return;
+      const { queue, id } = JSON.parse(message) as ICancelMessage;
+      this.controllers[`${queue}:${id}`]?.abort(new Error('Job Cancelled'));
+    });
+  }
+
+  signal(queue: string, id: string) {
+    const controller = new AbortController();
+    this.controllers[`${queue}:${id}`] = controller;
+    return controller.signal;
+  }
+
+  release(queue: string, id: string) {
+    delete this.controllers[`${queue}:${id}`];
+  }
+
+  close() {
+    return this.subscriber.quit();
+  }
+}
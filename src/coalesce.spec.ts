@@ -0,0 +1,82 @@
+import { EventEmitter } from 'events';
+
+import { Coalescer, coalesceKey } from './coalesce';
+
+function request(headers: any = {}): any {
+  return { method: 'GET', url: '/items', headers, query: { b: '2', a: '1' } };
+}
+
+test('share one job for identical requests', async () => {
+  const job = Object.assign(new EventEmitter(), { id: '1' });
+  const create = jest.fn(async () => job as any);
+  const queue = { removeJob: jest.fn() } as any;
+  const coalescer = new Coalescer();
+
+  const key = coalesceKey('default', request(), false);
+  const first = coalescer.run(key, queue, create, 1000);
+  const second = coalescer.run(key, queue, create, 1000);
+  await new Promise((resolve) => setImmediate(resolve));
+  job.emit('succeeded', { statusCode: 200, result: 'Done' });
+
+  expect(await first).toEqual({ statusCode: 200, result: 'Done' });
+  expect(await second).toEqual({ statusCode: 200, result: 'Done' });
+  expect(await first).not.toBe(await second);
+  expect(create).toBeCalledTimes(1);
+});
+
+test('track outcome of shared job once', async () => {
+  const job = Object.assign(new EventEmitter(), { id: '1' });
+  const queue = { removeJob: jest.fn() } as any;
+  const track = jest.fn((response: Promise<any>) => response);
+  const coalescer = new Coalescer();
+
+  const key = coalesceKey('default', request(), false);
+  const results = Promise.allSettled([
+    coalescer.run(key, queue, async () => job as any, 1000, track),
+    coalescer.run(key, queue, async () => job as any, 1000, track),
+  ]);
+  await new Promise((resolve) => setImmediate(resolve));
+  job.emit('failed', new Error('Job Failed'));
+
+  expect((await results).map((r) => r.status)).toEqual([
+    'rejected',
+    'rejected',
+  ]);
+  expect(track).toBeCalledTimes(1);
+});
+
+test('scope key by authorization unless shared', () => {
+  const alice = request({ authorization: 'Bearer a' });
+  const bob = request({ authorization: 'Bearer b' });
+  expect(coalesceKey('default', alice, false)).not.toBe(
+    coalesceKey('default', bob, false),
+  );
+  expect(coalesceKey('default', alice, true)).toBe(
+    coalesceKey('default', bob, true),
+  );
+});
+
+test('follow job of another process, finishing while read', async () => {
+  const queue = Object.assign(new EventEmitter(), {
+    name: 'default',
+    settings: { keyPrefix: 'bq:default:' },
+  });
+  const redis = {
+    get: async (key: string) => (key.startsWith('coalesce:') ? '1' : null),
+    lrange: async () => [],
+    hget: async () => {
+      queue.emit('job succeeded', '1', { statusCode: 200, result: 'Done' });
+      return JSON.stringify({ data: request(), status: 'created' });
+    },
+  };
+  const create = jest.fn();
+  const coalescer = new Coalescer(redis as any);
+
+  const key = coalesceKey('default', request(), false);
+  expect(await coalescer.run(key, queue as any, create, 1000)).toEqual({
+    statusCode: 200,
+    result: 'Done',
+  });
+  expect(create).not.toBeCalled();
+  expect(queue.listenerCount('job succeeded')).toBe(0);
+});
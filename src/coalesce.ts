@@ -0,0 +1,139 @@
+import type { IRequest, IResponse } from './interface';
+import type { Job } from 'bee-queue';
+
+import Queue = require('bee-queue');
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import Redis from 'ioredis';
+
+import { readJob, wait } from './utils';
+
+// release the claim only if still held by the job
+const releaseScript = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
+
+/**
+ * coalescing key of a request
+ * @param queue string queue name
+ * @param data IRequest
+ * @param shared boolean whether response is the same for every user
+ */
+export function coalesceKey(queue: string, data: IRequest, shared: boolean) {
+  const query = Object.keys(data.query || {})
+    .sort()
+    .map((k) => [k, data.query[k]]);
+  const scope = shared ? [] : [data.headers.authorization, data.user?.id];
+  const value = JSON.stringify([data.method, data.url, query, scope]);
+  return `coalesce:${queue}:${createHash('sha1').update(value).digest('hex')}`;
+}
+
+/**
+ * identical requests in flight share one job,
+ * within this process, or across processes through redis
+ */
+export class Coalescer {
+  private readonly inflight: Record<string, Promise<IResponse>> = {};
+
+  constructor(private readonly redis?: Redis) {}
+
+  /**
+   * response of a job shared with identical requests in flight
+   * @param key string coalescing key
+   * @param queue Queue
+   * @param create function creating the job if none in flight
+   * @param timeout number in milliseconds
+   * @param track function observing the outcome once per job, e.g. circuit breaker
+   */
+  async run(
+    key: string,
+    queue: Queue,
+    create: () => Promise<Job<IRequest>>,
+    timeout: number,
+    track = (response: Promise<IResponse>) => response,
+  ): Promise<IResponse> {
+    if (!this.inflight[key]) {
+      this.inflight[key] = track(
+        this.attach(key, queue, create, timeout),
+      ).finally(() => delete this.inflight[key]);
+    }
+    // callers may modify the response
+    return { ...(await this.inflight[key]) };
+  }
+
+  private async attach(
+    key: string,
+    queue: Queue,
+    create: () => Promise<Job<IRequest>>,
+    timeout: number,
+  ) {
+    if (this.redis) {
+      const id = await this.redis.get(key);
+      const followed = id && (await this.follow(queue, id));
+      if (followed) {
+        try {
+          return await wait<IRequest>(queue, followed.job, timeout);
+        } finally {
+          followed.unsubscribe();
+        }
+      }
+    }
+
+    const job = await create();
+    if (!this.redis) return await wait<IRequest>(queue, job, timeout);
+    await this.redis.set(key, job.id, 'PX', timeout, 'NX');
+    try {
+      return await wait<IRequest>(queue, job, timeout);
+    } finally {
+      await this.redis.eval(releaseScript, 1, key, job.id);
+    }
+  }
+
+  /**
+   * job created by another process, subscribed to its events on the queue
+   * before checking it is still pending, so its result cannot be missed
+   * @param queue Queue
+   * @param id string job id
+   */
+  private async follow(queue: Queue, id: string) {
+    // events before waiting are replayed to listeners
+    const settled: Record<string, unknown> = {};
+    const job = Object.assign(new EventEmitter(), { id });
+    job.on(
+      'newListener',
+      (event: string, listener: (value: unknown) => void) => {
+        if (event in settled) process.nextTick(listener, settled[event]);
+      },
+    );
+    const relay = (event: string) => (id_: string, value: unknown) => {
+      if (id_ !== id) return;
+      settled[event] = value;
+      job.emit(event, value);
+    };
+    const onSucceeded = relay('succeeded');
+    const onFailed = relay('failed');
+    queue.on('job succeeded', onSucceeded);
+    queue.on('job failed', onFailed);
+    const unsubscribe = () => {
+      queue.off('job succeeded', onSucceeded);
+      queue.off('job failed', onFailed);
+    };
+
+    const status = await readJob(this.redis, queue, id).catch((e) => {
+      unsubscribe();
+      throw e;
+    });
+    if (
+      Object.keys(settled).length ||
+      status?.status === 'created' ||
+      status?.status === 'active' ||
+      status?.status === 'retrying'
+    ) {
+      return { job: job as unknown as Job<IRequest>, unsubscribe };
+    }
+    unsubscribe();
+  }
+}
@@ -0,0 +1,226 @@
+import type {
+  IBackoff,
+  IBaseConfig,
+  IBreakerOptions,
+  ICache,
+  IIpFilter,
+  ILimitPolicy,
+  IMapper,
+  IMasterConfig,
+  ISupervisorOptions,
+  IWorkerConfig,
+} from './interface';
+import type { JSONSchema } from './schema';
+
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { ConfigError, configSchema, loadConfig, redact } from './config';
+
+// every key of a config interface, failing to compile if one is missing or unknown,
+// with nested keys of object values
+type Keys<T> = { [K in keyof NonNullable<T>]-?: true | object };
+
+function keys<T>(keys: Keys<T>) {
+  return keys;
+}
+
+// object schema of a value, maybe in an array or anyOf
+function objectSchema(schema: JSONSchema): JSONSchema | undefined {
+  if (schema.properties) return schema;
+  if (schema.items) return objectSchema(schema.items);
+  return (schema.anyOf || [])
+    .map(objectSchema)
+    .find((s: JSONSchema | undefined) => s);
+}
+
+function expectKeys(schema: JSONSchema, keys: object, path = '(root)') {
+  const properties = objectSchema(schema)?.properties || {};
+  expect({ path, keys: Object.keys(properties).sort() }).toEqual({
+    path,
+    keys: Object.keys(keys).sort(),
+  });
+  for (const [key, value] of Object.entries(keys)) {
+    if (value !== true) expectKeys(properties[key], value, `${path}.${key}`);
+  }
+}
+
+async function configDir(files: Record<string, string>) {
+  const dir = await mkdtemp(join(tmpdir(), 'config-'));
+  for (const name of Object.keys(files)) {
+    await writeFile(join(dir, name), files[name]);
+  }
+  return dir;
+}
+
+test('layer config files with env and secret files', async () => {
+  const dir = await configDir({
+    'config.yaml': 'modules: [default]\nredis:\n  host: redis\n  port: 6379\n',
+    'config.test.yaml':
+      'redis:\n  port: ${REDIS_PORT:-6380}\n  password_file: redis.secret\n',
+    'config.local.yaml': 'modules: [local]\n',
+    'redis.secret': 'secret\n',
+  });
+  const config = await loadConfig({ dir, env: 'test' });
+  expect(config).toEqual({
+    modules: ['local'],
+    redis: { host: 'redis', port: 6380, password: 'secret' },
+  });
+  expect(redact(config).redis.password).toBe('[REDACTED]');
+});
+
+test('fail on environment variable not set', async () => {
+  const dir = await configDir({ 'config.test.yaml': 'port: ${PORT_NOT_SET}' });
+  const error: ConfigError = await loadConfig({ dir, env: 'test' }).catch(
+    (e) => e,
+  );
+  expect(error).toBeInstanceOf(ConfigError);
+  expect(error.errors).toEqual([
+    'port: environment variable PORT_NOT_SET is not set',
+  ]);
+});
+
+test('fail with path of invalid values', async () => {
+  const dir = await configDir({
+    'config.test.yaml': [
+      'port: 8080',
+      'database:',
+      '  username: username',
+      '  rebuild: true',
+      'mapper:',
+      '  - path: /*',
+      '    timeout: soon',
+    ].join('\n'),
+  });
+  const error: ConfigError = await loadConfig({ dir, env: 'test' }).catch(
+    (e) => e,
+  );
+  expect(error.errors).toEqual(
+    expect.arrayContaining([
+      'database.password: is required',
+      'database.rebuild: is not allowed',
+      'mapper.0.queue: is required',
+      'mapper.0.timeout: must be integer',
+      'auth: is required',
+    ]),
+  );
+});
+
+test('keep schema in sync with config interfaces', () => {
+  const token = keys<IMasterConfig['auth']['access_token']>({
+    secret: true,
+    expires_in: true,
+  });
+  const limit = keys<ILimitPolicy>({
+    count: true,
+    window: true,
+    key: true,
+    perEndpoint: true,
+  });
+  const ipFilter = keys<IIpFilter>({ allow: true, deny: true });
+
+  expectKeys(
+    configSchema,
+    keys<IMasterConfig & IWorkerConfig>({
+      clusters: true,
+      supervisor: keys<ISupervisorOptions>({
+        delay: true,
+        maxDelay: true,
+        maxRestarts: true,
+        window: true,
+        readyTimeout: true,
+      }),
+      timeout: true,
+      jobs: keys<IBaseConfig['jobs']>({ ttl: true }),
+      shutdown: keys<IBaseConfig['shutdown']>({ timeout: true }),
+      tracing: keys<IBaseConfig['tracing']>({
+        service: true,
+        endpoint: true,
+        headers: true,
+        file: true,
+      }),
+      metrics: keys<IBaseConfig['metrics']>({ port: true }),
+      health: keys<IBaseConfig['health']>({
+        timeout: true,
+        cache: true,
+        interval: true,
+        minWorkers: true,
+      }),
+      redis: keys<IBaseConfig['redis']>({
+        secure: true,
+        host: true,
+        port: true,
+        username: true,
+        password: true,
+      }),
+      database: keys<IBaseConfig['database']>({
+        dialect: true,
+        host: true,
+        port: true,
+        username: true,
+        password: true,
+        database: true,
+        sync: true,
+      }),
+      port: true,
+      trustProxy: true,
+      ipFilter,
+      package: true,
+      cache: keys<ICache>({
+        private: true,
+        noCache: true,
+        noStore: true,
+        maxAge: true,
+        staleWhileRevalidate: true,
+        lastModified: true,
+        etag: true,
+        vary: true,
+        tags: true,
+      }),
+      limit,
+      breaker: keys<IBreakerOptions>({ threshold: true, cooldown: true }),
+      coalesce: true,
+      idempotency: keys<IMasterConfig['idempotency']>({
+        ttl: true,
+        lock: true,
+      }),
+      auth: keys<IMasterConfig['auth']>({
+        cookie: token,
+        access_token: token,
+        refresh_token: token,
+        strict: true,
+        model: true,
+      }),
+      stream: keys<IMasterConfig['stream']>({ heartbeat: true, timeout: true }),
+      mapper: keys<IMapper>({
+        method: true,
+        path: true,
+        queue: true,
+        stripPrefix: true,
+        async: true,
+        stream: true,
+        ws: true,
+        strict: true,
+        roles: true,
+        permissions: true,
+        limit,
+        ipFilter,
+        coalesce: true,
+        timeout: true,
+        retries: true,
+        retryUnsafe: true,
+        backoff: keys<IBackoff>({ strategy: true, delay: true }),
+        priority: true,
+        public: true,
+        plugins: true,
+      }),
+      modules: true,
+      concurrency: keys<IWorkerConfig['concurrency']>({
+        high: true,
+        normal: true,
+        low: true,
+      }),
+    }),
+  );
+});
@@ -0,0 +1,322 @@
+import type { ErrorObject } from 'ajv';
+import type { IConfig } from './interface';
+import type { JSONSchema } from './schema';
+
+import Ajv from 'ajv';
+import deepmerge = require('deepmerge');
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import yaml = require('js-yaml');
+import { resolve } from 'path';
+
+function object(
+  properties: Record<string, JSONSchema>,
+  required: string[] = [],
+): JSONSchema {
+  return { type: 'object', properties, required, additionalProperties: false };
+}
+
+const string: JSONSchema = { type: 'string' };
+const integer: JSONSchema = { type: 'integer' };
+const boolean: JSONSchema = { type: 'boolean' };
+const strings: JSONSchema = { type: 'array', items: string };
+
+const cache = object({
+  private: boolean,
+  noCache: boolean,
+  noStore: boolean,
+  maxAge: integer,
+  staleWhileRevalidate: integer,
+  lastModified: string,
+  etag: string,
+  vary: strings,
+  tags: strings,
+});
+const limit = object(
+  {
+    count: integer,
+    window: integer,
+    key: { enum: ['ip', 'user', 'apiKey', 'device'] },
+    perEndpoint: boolean,
+  },
+  ['count', 'window'],
+);
+const ipFilter = object({ allow: strings, deny: strings });
+const token = object({ secret: string, expires_in: string });
+const priority: JSONSchema = { enum: ['high', 'normal', 'low'] };
+
+const mapper = object(
+  {
+    method: {
+      enum: [
+        'ALL',
+        'GET',
+        'HEAD',
+        'POST',
+        'PUT',
+        'DELETE',
+        'CONNECT',
+        'OPTIONS',
+        'TRACE',
+        'PATCH',
+      ],
+    },
+    path: string,
+    queue: string,
+    stripPrefix: string,
+    async: boolean,
+    stream: boolean,
+    ws: boolean,
+    strict: boolean,
+    roles: strings,
+    permissions: strings,
+    limit: { anyOf: [limit, { type: 'array', items: limit }] },
+    ipFilter,
+    coalesce: boolean,
+    timeout: integer,
+    retries: integer,
+    retryUnsafe: boolean,
+    backoff: object(
+      { strategy: { enum: ['fixed', 'exponential'] }, delay: integer },
+      ['strategy', 'delay'],
+    ),
+    priority,
+    public: boolean,
+    plugins: strings,
+  },
+  ['path', 'queue'],
+);
+
+// IMasterConfig and IWorkerConfig, both in a hybrid server
+export const configSchema = object({
+  // IBaseConfig
+  clusters: { anyOf: [boolean, integer] },
+  supervisor: object({
+    delay: integer,
+    maxDelay: integer,
+    maxRestarts: integer,
+    window: integer,
+    readyTimeout: integer,
+  }),
+  timeout: integer,
+  jobs: object({ ttl: integer }),
+  shutdown: object({ timeout: integer }),
+  tracing: object({
+    service: string,
+    endpoint: string,
+    headers: { type: 'object', additionalProperties: string },
+    file: string,
+  }),
+  metrics: object({ port: integer }),
+  health: object({
+    timeout: integer,
+    cache: integer,
+    interval: integer,
+    minWorkers: integer,
+  }),
+  redis: object({
+    secure: boolean,
+    host: string,
+    port: integer,
+    username: string,
+    password: string,
+  }),
+  database: object(
+    {
+      dialect: string,
+      host: string,
+      port: integer,
+      username: string,
+      password: string,
+      database: string,
+      sync: boolean,
+    },
+    ['username', 'password', 'database'],
+  ),
+
+  // IMasterConfig
+  port: integer,
+  trustProxy: strings,
+  ipFilter,
+  package: string,
+  cache,
+  limit,
+  breaker: object({ threshold: integer, cooldown: integer }),
+  coalesce: { anyOf: [boolean, { const: 'redis' }] },
+  idempotency: object({ ttl: integer, lock: integer }),
+  auth: object(
+    {
+      cookie: token,
+      access_token: token,
+      refresh_token: token,
+      strict: boolean,
+      model: string,
+    },
+    ['access_token', 'refresh_token'],
+  ),
+  stream: object({ heartbeat: integer, timeout: integer }),
+  mapper: { type: 'array', items: mapper },
+
+  // IWorkerConfig
+  modules: strings,
+  concurrency: object({ high: integer, normal: integer, low: integer }),
+});
+
+// yaml strings are coerced, e.g. interpolated numbers
+const ajv = new Ajv({ allErrors: true, coerceTypes: true });
+const validate = ajv.compile<Record<string, unknown>>(configSchema);
+
+// redacted when printing config
+const secretKey = /secret|password|passphrase|authorization|api-?key/i;
+
+export class ConfigError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Invalid config\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+}
+
+export interface ILoadOptions {
+  dir?: string; // default configs, or templates if missing
+  env?: string;
+  local?: string; // override file, ignored by git
+}
+
+function toPath(path: string[]) {
+  return path.join('.') || '(root)';
+}
+
+function toError(error: ErrorObject) {
+  const path = error.instancePath
+    .substring(1)
+    .split('/')
+    .filter((p) => p);
+  switch (error.keyword) {
+    case 'required':
+      path.push(error.params.missingProperty);
+      return `${toPath(path)}: is required`;
+    case 'additionalProperties':
+      path.push(error.params.additionalProperty);
+      return `${toPath(path)}: is not allowed`;
+    default:
+      return `${toPath(path)}: ${error.message}`;
+  }
+}
+
+/**
+ * replace ${NAME} or ${NAME:-default} with environment variables,
+ * and `<key>_file` with the content of the file as `<key>`
+ * @param value any parsed yaml
+ * @param dir string base directory of secret files
+ * @param errors string[] collecting errors
+ * @param path string[] of value
+ */
+async function resolveValues(
+  value: any,
+  dir: string,
+  errors: string[],
+  path: string[] = [],
+): Promise<any> {
+  if (typeof value === 'string') {
+    return value.replace(
+      /\$\{(\w+)(?::-([^}]*))?\}/g,
+      (_, name: string, default_?: string) => {
+        if (process.env[name] !== undefined) return process.env[name];
+        if (default_ !== undefined) return default_;
+        errors.push(`${toPath(path)}: environment variable ${name} is not set`);
+        return '';
+      },
+    );
+  } else if (Array.isArray(value)) {
+    return Promise.all(
+      value.map((v, i) => resolveValues(v, dir, errors, [...path, `${i}`])),
+    );
+  } else if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+      const resolved = await resolveValues(value[key], dir, errors, [
+        ...path,
+        key,
+      ]);
+      if (!key.endsWith('_file')) {
+        result[key] = resolved;
+        continue;
+      }
+      const key_ = key.substring(0, key.length - '_file'.length);
+      try {
+        result[key_] = (await readFile(resolve(dir, resolved), 'utf8')).trim();
+      } catch (e) {
+        errors.push(`${toPath([...path, key])}: ${e.message}`);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * load config.yaml, config.<env>.yaml and the local override in order,
+ * later files overriding earlier ones
+ * @param options ILoadOptions
+ */
+export async function loadConfig<T extends IConfig = IConfig>({
+  dir = existsSync('configs') ? 'configs' : 'templates',
+  env = process.env.NODE_ENV || 'development',
+  local = 'config.local.yaml',
+}: ILoadOptions = {}): Promise<T> {
+  const files = ['config.yaml', `config.${env}.yaml`, local]
+    .map((file) => resolve(dir, file))
+    .filter((file) => existsSync(file));
+  if (!files.length) {
+    throw new ConfigError([`no config.yaml or config.${env}.yaml in ${dir}`]);
+  }
+
+  const errors: string[] = [];
+  const layers = await Promise.all(
+    files.map(async (file) => {
+      try {
+        return (yaml.load(await readFile(file, 'utf8')) || {}) as object;
+      } catch (e) {
+        errors.push(`${file}: ${e.message}`);
+        return {};
+      }
+    }),
+  );
+  const config: Record<string, any> = await resolveValues(
+    deepmerge.all(layers, { arrayMerge: (_, source) => source }),
+    dir,
+    errors,
+  );
+  if (errors.length) throw new ConfigError(errors);
+
+  if (!validate(config)) errors.push(...validate.errors.map(toError));
+  // gateway if port, worker if modules
+  if (!('port' in config) && !('modules' in config)) {
+    errors.push('(root): port or modules is required');
+  }
+  if ('port' in config) {
+    for (const key of ['auth', 'mapper']) {
+      if (!(key in config)) errors.push(`${key}: is required`);
+    }
+  }
+  if (errors.length) throw new ConfigError(errors);
+  return config as T;
+}
+
+/**
+ * copy of config with secrets replaced, e.g. for printing
+ * @param config any
+ */
+export function redact(config: any): any {
+  if (Array.isArray(config)) return config.map(redact);
+  if (config && typeof config === 'object') {
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(config)) {
+      result[key] =
+        secretKey.test(key) && typeof config[key] !== 'object'
+          ? '[REDACTED]'
+          : redact(config[key]);
+    }
+    return result;
+  }
+  return config;
+}
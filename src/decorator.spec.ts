@@ -0,0 +1,225 @@
+import httpStatus = require('http-status');
+
+import {
+  Body,
+  BodyValidate,
+  ETag,
+  Params,
+  Path,
+  Query,
+  Queue,
+  RequirePermission,
+  RequireRole,
+} from './decorator';
+import { IBodyRequest, IRequest } from './interface';
+import { FromSchema } from './schema';
+
+const querySchema = {
+  type: 'object',
+  properties: {
+    page: { type: 'integer', minimum: 1 },
+    active: { type: 'boolean' },
+  },
+  required: ['page'],
+} as const;
+
+const bodySchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    age: { type: 'integer' },
+  },
+  required: ['name'],
+} as const;
+
+@Queue()
+class TestQueue {
+  @Path('GET', '/items')
+  @Query(querySchema)
+  list({ query }: IRequest<any, FromSchema<typeof querySchema>>) {
+    return { statusCode: httpStatus.OK, result: query };
+  }
+
+  @Path('POST', '/items')
+  @Body(bodySchema)
+  create({ body }: IBodyRequest<FromSchema<typeof bodySchema>>) {
+    return { statusCode: httpStatus.CREATED, result: body };
+  }
+
+  @Path('GET', '/items/:id/:section?')
+  @Params({
+    type: 'object',
+    properties: { id: { type: 'integer' } },
+  } as const)
+  get({ params }: IRequest) {
+    return { statusCode: httpStatus.OK, result: params };
+  }
+
+  @Path('POST', '/flags')
+  @BodyValidate('enabled')
+  flag({ body }: IBodyRequest) {
+    return { statusCode: httpStatus.OK, result: body };
+  }
+}
+
+function request(method: string, url: string, extra: any = {}): IRequest {
+  return {
+    method,
+    url,
+    headers: {},
+    query: {},
+    params: {},
+    extra: {},
+    ...extra,
+  };
+}
+
+const queue = new TestQueue() as any;
+
+test('coerce query string', async () => {
+  const result = await queue.run(
+    request('GET', '/items', { query: { page: '2', active: 'false' } }),
+  );
+  expect(result).toEqual({
+    statusCode: httpStatus.OK,
+    result: { page: 2, active: false },
+  });
+});
+
+test('return field errors', async () => {
+  const result = await queue.run(
+    request('POST', '/items', { body: { age: 'ten' } }),
+  );
+  expect(result.statusCode).toBe(httpStatus.BAD_REQUEST);
+  expect(result.extra).toEqual([
+    {
+      in: 'body',
+      field: 'name',
+      message: "must have required property 'name'",
+    },
+    { in: 'body', field: 'age', message: 'must be integer' },
+  ]);
+});
+
+test('falsy values are not missing', async () => {
+  const result = await queue.run(
+    request('POST', '/flags', { body: { enabled: false } }),
+  );
+  expect(result.statusCode).toBe(httpStatus.OK);
+});
+
+test('merge path parameters', async () => {
+  const result = await queue.run(
+    request('GET', '/items/3', { params: { '*': 'items/3' } }),
+  );
+  expect(result).toEqual({
+    statusCode: httpStatus.OK,
+    result: { '*': 'items/3', id: 3 },
+  });
+});
+
+@Queue('users')
+class UserQueue {
+  @Path('HEALTH')
+  health() {
+    return { statusCode: httpStatus.OK };
+  }
+
+  @Path('GET', '/:id')
+  get({ params }: IRequest) {
+    return { statusCode: httpStatus.OK, result: params.id };
+  }
+}
+
+test('prepend base url to path patterns', async () => {
+  const users = new UserQueue() as any;
+  expect(await users.run(request('GET', '/users/7'))).toEqual({
+    statusCode: httpStatus.OK,
+    result: '7',
+  });
+  expect((await users.run(request('GET', '/7'))).statusCode).toBe(
+    httpStatus.NOT_FOUND,
+  );
+  expect((await users.run(request('HEALTH', '*'))).statusCode).toBe(
+    httpStatus.OK,
+  );
+  expect((UserQueue as any).describe()[1].paths).toEqual([
+    { method: 'GET', path: '/users/:id' },
+  ]);
+});
+
+@Queue()
+class AdminQueue {
+  @Path('DELETE', '/users/:id')
+  @RequireRole('admin')
+  @RequirePermission('user.delete')
+  remove() {
+    return { statusCode: httpStatus.OK };
+  }
+}
+
+test('require role and permission', async () => {
+  const admin = new AdminQueue() as any;
+  const run = (user?: any) =>
+    admin.run(request('DELETE', '/users/1', { user }));
+
+  expect((await run()).statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(await run({ id: 1, roles: ['user'] })).toEqual({
+    statusCode: httpStatus.FORBIDDEN,
+    error: 'Require Role admin',
+  });
+  expect(await run({ id: 1, roles: ['admin'] })).toEqual({
+    statusCode: httpStatus.FORBIDDEN,
+    error: 'Require Permission user.delete',
+  });
+  expect(
+    (await run({ id: 1, roles: ['admin'], permissions: ['user.delete'] }))
+      .statusCode,
+  ).toBe(httpStatus.OK);
+});
+
+@Queue()
+class DocumentQueue {
+  @Path('GET', '/documents/:id')
+  @ETag(({ params }) => (params.id === '1' ? 3 : undefined))
+  get() {
+    return { statusCode: httpStatus.OK, result: 'content' };
+  }
+
+  @Path('PUT', '/documents/:id')
+  @ETag(({ params }) => (params.id === '1' ? 3 : undefined))
+  update() {
+    return { statusCode: httpStatus.OK, result: 'updated' };
+  }
+}
+
+test('etag preconditions', async () => {
+  const documents = new DocumentQueue() as any;
+  const run = (method: string, id: string, headers: any = {}) =>
+    documents.run(request(method, `/documents/${id}`, { headers }));
+
+  expect(await run('GET', '1')).toEqual({
+    statusCode: httpStatus.OK,
+    result: 'content',
+    cache: { etag: '"3"' },
+  });
+  expect(await run('GET', '1', { 'if-none-match': 'W/"3"' })).toEqual({
+    statusCode: httpStatus.NOT_MODIFIED,
+    cache: { etag: '"3"' },
+  });
+  expect((await run('GET', '1', { 'if-none-match': '"2"' })).statusCode).toBe(
+    httpStatus.OK,
+  );
+  expect((await run('PUT', '1', { 'if-match': '"3"' })).statusCode).toBe(
+    httpStatus.OK,
+  );
+  expect((await run('PUT', '1', { 'if-match': 'W/"3"' })).statusCode).toBe(
+    httpStatus.PRECONDITION_FAILED,
+  );
+  expect((await run('PUT', '2', { 'if-match': '*' })).statusCode).toBe(
+    httpStatus.PRECONDITION_FAILED,
+  );
+  expect((await run('PUT', '1', { 'if-none-match': '*' })).statusCode).toBe(
+    httpStatus.PRECONDITION_FAILED,
+  );
+});
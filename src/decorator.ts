@@ -1,44 +1,106 @@
-import type { IBodyRequest, ICache, IRequest, IResponse } from './interface';
+import type {
+  IBodyRequest,
+  ICache,
+  IContext,
+  IRequest,
+  IResponse,
+  IRoute,
+  IUser,
+} from './interface';
 
 import capitalize = require('capitalize');
-import { Forbidden, NotFound } from 'http-errors';
+import {
+  Forbidden,
+  NotFound,
+  PreconditionFailed,
+  Unauthorized,
+} from 'http-errors';
 import httpStatus = require('http-status');
 import words = require('lodash.words');
 import { DateTime } from 'luxon';
-import { match } from 'node-match-path';
 
-import { fixUrl, Nullable, ValidationError } from './utils';
+import { jobDuration, jobErrors } from './metrics';
+import { compile, FromSchema, JSONSchema } from './schema';
+import {
+  checkPermissions,
+  checkRoles,
+  fixUrl,
+  matchPath,
+  Nullable,
+  stripPrefix,
+  ValidationError,
+} from './utils';
 
 type CheckFunc<T> = (data: IRequest<any>) => void | T;
-type PathFunction = (data: IRequest<any>) => IResponse | Promise<IResponse>;
+type MatchFunc = CheckFunc<boolean | Record<string, string>>;
+type PathFunction<R = IRequest<any>> = (
+  data: R,
+  context?: IContext,
+) => IResponse | Promise<IResponse>;
 
 /* eslint-disable */
-type GetLastModified = (data: IRequest<any>) =>
-  | Date
-  | string
-  | number
-  | Promise<Date | string | number>;
+type GetLastModified = (
+  data: IRequest<any>,
+) => Date | string | number | Promise<Date | string | number>;
+type GetETag = (
+  data: IRequest<any>,
+) => Nullable<string | number> | Promise<Nullable<string | number>>;
 /* eslint-enable */
 
-const paths: Record<
-  string,
-  Record<string, Array<[CheckFunc<boolean>, string]>>
-> = {};
+const paths: Record<string, Record<string, Array<[MatchFunc, string]>>> = {};
+
+// route descriptions for api document
+const routes: Record<string, Record<string, IRoute>> = {};
+
+function describe(
+  target: any,
+  propertyKey: string,
+  callback: (route: IRoute) => void,
+) {
+  const name = target.constructor.name;
+  if (!routes[name]) routes[name] = {};
+  if (!routes[name][propertyKey]) {
+    routes[name][propertyKey] = { handler: propertyKey, paths: [] };
+  }
+  callback(routes[name][propertyKey]);
+}
 
 export function BodyValidate(field: string, name?: string) {
-  return Validate(
+  name = name || capitalize.words(words(field).join(' '));
+  const validate = Validate(
     ({ body }: IBodyRequest) =>
-      !body[field] &&
-      `Missing ${name || capitalize.words(words(field).join(' '))}`,
+      (body?.[field] === undefined || body[field] === null) &&
+      `Missing ${name}`,
   );
+  return function (
+    target: any,
+    propertyKey: string,
+    // eslint-disable-next-line
+    descriptor: TypedPropertyDescriptor<PathFunction>,
+  ) {
+    describe(target, propertyKey, (route) => {
+      route.body = { ...route.body, [field]: name };
+    });
+    validate(target, propertyKey, descriptor);
+  };
 }
 
 export function HeaderValidate(field: string, name?: string) {
-  return Validate(
-    ({ headers }) =>
-      !headers[field] &&
-      `Missing ${name || capitalize.words(words(field).join(' '))}`,
+  name = name || capitalize.words(words(field).join(' '));
+  const validate = Validate(
+    ({ headers }) => headers[field] === undefined && `Missing ${name}`,
   );
+  return function (
+    target: any,
+    propertyKey: string,
+    // eslint-disable-next-line
+    descriptor: TypedPropertyDescriptor<PathFunction>,
+  ) {
+    describe(target, propertyKey, (route) => {
+      route.headers = { ...route.headers, [field]: name };
+    });
+    validate(target, propertyKey, descriptor);
+  };
 }
 
 export function Validate(...funcs: CheckFunc<Nullable<string>>[]) {
@@ -49,17 +111,52 @@ export function Validate(...funcs: CheckFunc<Nullable<string>>[]) {
     descriptor: TypedPropertyDescriptor<PathFunction>,
   ) {
     const func = descriptor.value!;
-    descriptor.value = async (data: IRequest<any>) => {
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
       const messages: string[] = funcs.reduce((r, f) => {
         const result = f(data);
         return result ? [...r, result] : r;
       }, []);
       if (messages.length) throw new ValidationError(messages);
-      return await func.apply(target, [data]);
+      return await func.apply(target, [data, context]);
+    };
+  };
+}
+
+function SchemaValidate<R>(
+  in_: 'body' | 'query' | 'params',
+  schema: JSONSchema,
+) {
+  const validate = compile(in_, schema);
+  return function (
+    target: any,
+    propertyKey: string,
+    // eslint-disable-next-line
+    descriptor: TypedPropertyDescriptor<PathFunction<R>>,
+  ) {
+    describe(target, propertyKey, (route) => {
+      route.schemas = { ...route.schemas, [in_]: schema };
+    });
+    const func = descriptor.value!;
+    descriptor.value = async (data: R, context?: IContext) => {
+      const errors = validate(data[in_]);
+      if (errors.length) throw new ValidationError(errors);
+      return await func.apply(target, [data, context]);
     };
   };
 }
 
+export function Body<S extends JSONSchema>(schema: S) {
+  return SchemaValidate<IBodyRequest<FromSchema<S>>>('body', schema);
+}
+
+export function Query<S extends JSONSchema>(schema: S) {
+  return SchemaValidate<IRequest<any, FromSchema<S>>>('query', schema);
+}
+
+export function Params<S extends JSONSchema>(schema: S) {
+  return SchemaValidate<IRequest<any, any, FromSchema<S>>>('params', schema);
+}
+
 export function Guard(...funcs: CheckFunc<boolean>[]) {
   return function (
     target: any,
@@ -68,14 +165,50 @@ export function Guard(...funcs: CheckFunc<boolean>[]) {
     descriptor: TypedPropertyDescriptor<PathFunction>,
   ) {
     const func = descriptor.value!;
-    descriptor.value = async (data: IRequest<any>) => {
-      const result = funcs.reduce((r, f) => r && (f(data) || true), true);
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
+      const result = funcs.every((f) => f(data));
       if (!result) throw new Forbidden();
-      return (await func.apply(target, [data])) as IResponse<any>;
+      return (await func.apply(target, [data, context])) as IResponse<any>;
+    };
+  };
+}
+
+function Authorize(
+  callback: (route: IRoute) => void,
+  check: (user: IUser) => Nullable<string>,
+) {
+  return function (
+    target: any,
+    propertyKey: string,
+    // eslint-disable-next-line
+    descriptor: TypedPropertyDescriptor<PathFunction>,
+  ) {
+    describe(target, propertyKey, callback);
+    const func = descriptor.value!;
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
+      if (!data.user) throw new Unauthorized();
+      const reason = check(data.user);
+      if (reason) throw new Forbidden(reason);
+      return await func.apply(target, [data, context]);
     };
   };
 }
 
+export function RequireRole(...roles: string[]) {
+  return Authorize(
+    (route) => (route.roles = [...(route.roles || []), ...roles]),
+    (user) => checkRoles(user, roles),
+  );
+}
+
+export function RequirePermission(...permissions: string[]) {
+  return Authorize(
+    (route) =>
+      (route.permissions = [...(route.permissions || []), ...permissions]),
+    (user) => checkPermissions(user, permissions),
+  );
+}
+
 export function LastModified(getFunc: GetLastModified) {
   return function (
     target: any,
@@ -83,8 +216,11 @@ export function LastModified(getFunc: GetLastModified) {
     // eslint-disable-next-line
     descriptor: TypedPropertyDescriptor<PathFunction>,
   ) {
+    describe(target, propertyKey, (route) => {
+      route.lastModified = true;
+    });
     const func = descriptor.value!;
-    descriptor.value = async (data: IRequest<any>) => {
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
       let current: DateTime;
       const value: Date | string | number = await getFunc.apply(target, [data]);
       switch (typeof value) {
@@ -108,7 +244,7 @@ export function LastModified(getFunc: GetLastModified) {
         }
       }
 
-      const result: IResponse<any> = await func.apply(target, [data]);
+      const result: IResponse<any> = await func.apply(target, [data, context]);
       if ('result' in result) {
         result.cache = Object.assign(result.cache || {}, {
           lastModified: current.toHTTP(),
@@ -119,6 +255,62 @@ export function LastModified(getFunc: GetLastModified) {
   };
 }
 
+// quote raw validator, keep a given weak or strong tag as is
+function toETag(value: string | number) {
+  const value_ = String(value);
+  return /^(W\/)?".*"$/.test(value_) ? value_ : `"${value_}"`;
+}
+
+// see RFC 7232 section 2.3.2
+function matchETag(header: string, etag: string, weak: boolean) {
+  if (header.trim() === '*') return true;
+  const opaque = (tag: string) => tag.replace(/^W\//, '');
+  return header
+    .split(',')
+    .map((tag) => tag.trim())
+    .some(
+      (tag) =>
+        (weak || !(tag.startsWith('W/') || etag.startsWith('W/'))) &&
+        opaque(tag) === opaque(etag),
+    );
+}
+
+export function ETag(getFunc: GetETag) {
+  return function (
+    target: any,
+    propertyKey: string,
+    // eslint-disable-next-line
+    descriptor: TypedPropertyDescriptor<PathFunction>,
+  ) {
+    describe(target, propertyKey, (route) => {
+      route.etag = true;
+    });
+    const func = descriptor.value!;
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
+      const value = await getFunc.apply(target, [data]);
+      const etag =
+        value === undefined || value === null ? undefined : toETag(value);
+      const safe = data.method === 'GET' || data.method === 'HEAD';
+      const ifMatch = data.headers['if-match'] as string;
+      const ifNoneMatch = data.headers['if-none-match'] as string;
+
+      if (!safe && ifMatch && !(etag && matchETag(ifMatch, etag, false))) {
+        throw new PreconditionFailed();
+      }
+      if (etag && ifNoneMatch && matchETag(ifNoneMatch, etag, true)) {
+        if (!safe) throw new PreconditionFailed();
+        return { statusCode: httpStatus.NOT_MODIFIED, cache: { etag } };
+      }
+
+      const result: IResponse<any> = await func.apply(target, [data, context]);
+      if (etag && safe && 'result' in result) {
+        result.cache = Object.assign(result.cache || {}, { etag });
+      }
+      return result;
+    };
+  };
+}
+
 export function Public() {
   return Cache({ private: false });
 }
@@ -131,6 +323,18 @@ export function MaxAge(maxAge: number) {
   return Cache({ maxAge });
 }
 
+export function StaleWhileRevalidate(staleWhileRevalidate: number) {
+  return Cache({ staleWhileRevalidate });
+}
+
+export function Vary(...vary: string[]) {
+  return Cache({ vary });
+}
+
+export function Tags(...tags: string[]) {
+  return Cache({ tags });
+}
+
 export function NoCache() {
   return Cache({ noCache: true });
 }
@@ -146,9 +350,12 @@ export function Cache(options: ICache) {
     // eslint-disable-next-line
     descriptor: TypedPropertyDescriptor<PathFunction>,
   ) {
+    describe(target, propertyKey, (route) => {
+      route.cache = { ...route.cache, ...options };
+    });
     const func = descriptor.value!;
-    descriptor.value = async (data: IRequest<any>) => {
-      const result: IResponse<any> = await func.apply(target, [data]);
+    descriptor.value = async (data: IRequest<any>, context?: IContext) => {
+      const result: IResponse<any> = await func.apply(target, [data, context]);
       if ('result' in result) {
         result.cache = Object.assign(result.cache || {}, options);
       }
@@ -158,11 +365,13 @@ export function Cache(options: ICache) {
 }
 
 export function Path(method: string, url: string | CheckFunc<boolean> = '*') {
-  if (typeof url === 'string') {
-    const url_ = url;
-    url = ({ url: url__ }) => match(fixUrl(url_), fixUrl(url__)).matches;
-  }
+  const path = typeof url === 'string' ? fixUrl(url) : undefined;
+  const checkUrl: MatchFunc =
+    typeof url === 'string' ? ({ url: url_ }) => matchPath(path, url_) : url;
   return function (target: any, propertyKey: string) {
+    describe(target, propertyKey, (route) => {
+      route.paths.push({ method: method.toLocaleUpperCase(), path });
+    });
     // eslint-disable-next-line
     if (!paths[target.constructor.name]) {
       paths[target.constructor.name] = {};
@@ -171,15 +380,12 @@ export function Path(method: string, url: string | CheckFunc<boolean> = '*') {
     if (!paths[target.constructor.name][METHOD]) {
       paths[target.constructor.name][METHOD] = [];
     }
-    paths[target.constructor.name][METHOD].push([
-      url as CheckFunc<boolean>,
-      propertyKey,
-    ]);
+    paths[target.constructor.name][METHOD].push([checkUrl, propertyKey]);
   };
 }
 
 // eslint-disable-next-line
-export function Queue<T extends { new(...args: any[]): any }>(baseUrl = '') {
+export function Queue<T extends { new (...args: any[]): any }>(baseUrl = '') {
   return (constructor: T) => {
     // fix base url
     if (baseUrl) {
@@ -190,29 +396,76 @@ export function Queue<T extends { new(...args: any[]): any }>(baseUrl = '') {
     }
 
     return class extends constructor {
-      find(data: IRequest) {
+      static describe(): IRoute[] {
+        return Object.values(routes[constructor.name] || {})
+          .filter((route) => route.paths.length)
+          .map((route) => ({
+            ...route,
+            paths: route.paths.map(({ method, path }) => ({
+              method,
+              path:
+                path !== undefined && method !== 'HEALTH'
+                  ? fixUrl(baseUrl + path)
+                  : path,
+            })),
+          }));
+      }
+
+      find(data: IRequest): Nullable<[string, Record<string, string>]> {
         if (!paths[constructor.name][data.method]) {
           paths[constructor.name][data.method] = [];
         }
-        return paths[constructor.name][data.method].find(([checkUrl]) =>
-          checkUrl({ ...data, url: fixUrl(data.url) }),
-        );
+
+        // match path patterns under base url
+        let url = fixUrl(data.url);
+        if (baseUrl && data.method !== 'HEALTH') {
+          url = stripPrefix(url, baseUrl);
+          if (url === undefined) return;
+        }
+
+        for (const [checkUrl, propertyKey] of paths[constructor.name][
+          data.method
+        ]) {
+          const result = checkUrl({ ...data, url });
+          if (result) {
+            return [propertyKey, typeof result === 'object' ? result : {}];
+          }
+        }
       }
 
-      async run(data: IRequest<any>): Promise<IResponse> {
+      async run(
+        data: IRequest<any>,
+        context: IContext = {
+          emit: () => undefined,
+          signal: new AbortController().signal,
+        },
+      ): Promise<IResponse> {
+        const end = jobDuration.startTimer();
+        let handler = `${constructor.name}.none`;
+        let result: IResponse;
         try {
           const target =
             this.find(data) || this.find({ ...data, method: 'ALL' });
           if (!target) throw new NotFound();
-          return await this[target[1]].apply(this, [data]);
+
+          // named parameters from path pattern
+          const [propertyKey, params] = target;
+          handler = `${constructor.name}.${propertyKey}`;
+          data = { ...data, params: { ...data.params, ...params } };
+          result = await this[propertyKey].apply(this, [data, context]);
         } catch (e) {
           const statusCode = e.statusCode || httpStatus.INTERNAL_SERVER_ERROR;
-          return {
+          result = {
             statusCode,
             error: e.message || httpStatus[`${statusCode}_NAME`],
             extra: e.extra,
           };
         }
+        end({ handler });
+        if (result && 'error' in result) {
+          jobErrors.inc({ handler, status: result.statusCode });
+        }
+        return result;
       }
     };
   };
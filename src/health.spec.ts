@@ -0,0 +1,28 @@
+import { runCheck, workerStatus } from './health';
+
+test('fail check that does not return in time', async () => {
+  expect(await runCheck(async () => 'OK', 100)).toMatchObject({
+    status: 'pass',
+  });
+  expect(
+    await runCheck(() => new Promise((resolve) => setTimeout(resolve, 50)), 10),
+  ).toMatchObject({ status: 'fail', error: 'Check Timeout' });
+});
+
+test('count active workers and merge their checks', async () => {
+  const now = Date.now();
+  const redis = {
+    hgetall: async () => ({
+      a: JSON.stringify({ at: now, checks: { s3: { status: 'pass' } } }),
+      b: JSON.stringify({ at: now, checks: { s3: { status: 'fail' } } }),
+      c: JSON.stringify({ at: now - 60 * 1000, checks: {} }),
+    }),
+    hdel: jest.fn(),
+  } as any;
+
+  expect(await workerStatus(redis, 'default', 15 * 1000)).toEqual({
+    workers: 2,
+    checks: { s3: { status: 'fail' } },
+  });
+  expect(redis.hdel).toBeCalledWith('workers:default', 'c');
+});
@@ -0,0 +1,135 @@
+import type { Nullable } from './utils';
+
+import Redis from 'ioredis';
+import { hostname } from 'os';
+
+export type HealthCheck = () => Promise<unknown>;
+
+export interface ICheckResult {
+  status: 'pass' | 'fail';
+  elapsed: number;
+  error?: string;
+}
+
+interface IWorkerStatus {
+  at: number;
+  checks: Record<string, ICheckResult>;
+}
+
+function workersKey(queue: string) {
+  return `workers:${queue}`;
+}
+
+/**
+ * run a check, failing if it does not return in time
+ * @param check HealthCheck
+ * @param timeout number in milliseconds
+ */
+export async function runCheck(
+  check: HealthCheck,
+  timeout: number,
+): Promise<ICheckResult> {
+  const start = Date.now();
+  let timer: NodeJS.Timeout;
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Check Timeout')), timeout);
+      }),
+    ]);
+    return { status: 'pass', elapsed: Date.now() - start };
+  } catch (e) {
+    return { status: 'fail', elapsed: Date.now() - start, error: e.message };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * workers of a queue reporting within the expiry, and their check results
+ * @param redis Redis
+ * @param queue string queue name
+ * @param expiry number in milliseconds
+ */
+export async function workerStatus(
+  redis: Redis,
+  queue: string,
+  expiry: number,
+) {
+  const values = await redis.hgetall(workersKey(queue));
+  const statuses: IWorkerStatus[] = [];
+  const stopped: string[] = [];
+  for (const id of Object.keys(values)) {
+    const status = JSON.parse(values[id]) as IWorkerStatus;
+    if (status.at > Date.now() - expiry) statuses.push(status);
+    else stopped.push(id);
+  }
+  if (stopped.length) await redis.hdel(workersKey(queue), ...stopped);
+  const checks: Record<string, ICheckResult> = {};
+  for (const status of statuses) {
+    for (const name of Object.keys(status.checks)) {
+      // failure of any worker fails the check
+      if (!checks[name] || status.checks[name].status === 'fail') {
+        checks[name] = status.checks[name];
+      }
+    }
+  }
+  return { workers: statuses.length, checks };
+}
+
+/**
+ * custom checks of this worker, reported to gateways with its heartbeat
+ */
+export class HealthChecks {
+  private readonly id = `${hostname()}:${process.pid}`;
+  private readonly checks: Record<string, HealthCheck> = {};
+  private timer: Nullable<NodeJS.Timeout>;
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly timeout: number,
+  ) {}
+
+  register(name: string, check: HealthCheck) {
+    this.checks[name] = check;
+  }
+
+  async run() {
+    const result: Record<string, ICheckResult> = {};
+    await Promise.all(
+      Object.keys(this.checks).map(async (name) => {
+        result[name] = await runCheck(this.checks[name], this.timeout);
+      }),
+    );
+    return result;
+  }
+
+  /**
+   * report this worker as active for the queues
+   * @param queues string[] queue names
+   * @param interval number in milliseconds
+   */
+  start(queues: string[], interval: number) {
+    const beat = async () => {
+      const status: IWorkerStatus = {
+        at: Date.now(),
+        checks: await this.run(),
+      };
+      await Promise.all(
+        queues.map((queue) =>
+          this.redis.hset(workersKey(queue), this.id, JSON.stringify(status)),
+        ),
+      );
+    };
+    beat().catch(() => undefined);
+    this.timer = setInterval(() => beat().catch(() => undefined), interval);
+  }
+
+  async stop(queues: string[]) {
+    clearInterval(this.timer);
+    await Promise.all(
+      queues.map((queue) => this.redis.hdel(workersKey(queue), this.id)),
+    );
+  }
+}
@@ -1,22 +1,34 @@
 import type { DoneCallback, Job } from 'bee-queue';
+import type { ICacheHit } from './cache';
+import type { ICheckResult } from './health';
 
 import * as _cluster from 'cluster';
-import type { FastifyPluginCallback } from 'fastify';
-import { readFile } from 'fs/promises';
+import type {
+  FastifyPluginCallback,
+  FastifyReply,
+  FastifyRequest,
+} from 'fastify';
+import type { SocketStream } from '@fastify/websocket';
+import { BadRequest, Gone, InternalServerError, NotFound } from 'http-errors';
 import httpStatus = require('http-status');
-import yaml = require('js-yaml');
 import uniq = require('lodash.uniq');
 import minimist = require('minimist');
 import { cpus } from 'os';
 import { resolve } from 'path';
 
+import { CircuitBreaker } from './breaker';
+import { HealthChecks, runCheck, workerStatus } from './health';
+import { ResponseCache, cacheKey, isShareable } from './cache';
+import { CancelListener } from './cancel';
+import { Coalescer, coalesceKey } from './coalesce';
+import { loadConfig } from './config';
 import daos from './dao';
 import { DaoHelper } from './dao/base';
 import {
   Dependencies,
   HttpMethods,
   IBodyRequest,
-  IConfig,
+  IContext,
   IError,
   IMasterConfig,
   IRequest,
@@ -26,14 +38,53 @@ import {
 } from './interface';
 import { ServerType } from './interface';
 import logger from './logger';
+import {
+  gatewayRegistry,
+  jobsActive,
+  serveMetrics,
+  useRegistry,
+  workerRegistry,
+} from './metrics';
+import { generate, loadRoutes } from './openapi';
 import { connect as connectDB } from './sequelize';
-import { applyCache, connectQueue, logSection, wait } from './utils';
+import { handleShutdown, onShutdown } from './shutdown';
+import {
+  configureTracing,
+  endSpan,
+  formatTraceparent,
+  parseTraceparent,
+  runInSpan,
+  startSpan,
+} from './trace';
+import { SocketHub, Sockets } from './socket';
+import { clusterStatus, reportReady, supervise } from './supervisor';
+import {
+  applyCache,
+  closeWorkers,
+  connectQueue,
+  connectRedis,
+  createJob,
+  drainWaits,
+  jobContext,
+  jobOptions,
+  jobOwner,
+  laneConcurrency,
+  laneKey,
+  loadResult,
+  logSection,
+  Nullable,
+  readJob,
+  relay,
+  saveProgress,
+  saveResult,
+  stripPrefix,
+  wait,
+  waitTime,
+} from './utils';
 import { URL } from 'url';
 
 const cluster = _cluster as unknown as _cluster.Cluster;
 
-const base = true;
-
 const argv = minimist(process.argv.slice(2));
 
 const NODE_ENV = (process.env.NODE_ENV =
@@ -45,12 +96,16 @@ const debug = (process.env.DEBUG =
 if (debug) logger().debug('Start in debug mode');
 
 function masterMain(config: IMasterConfig) {
+  useRegistry(gatewayRegistry);
   logSection('Initialize Server', logger('Server'), async () => {
     const port = (config.port = config.port || 8080);
     const redisConfig = (config.redis = config.redis || {});
     const mapper = (config.mapper = config.mapper || []);
 
-    const app = (await import('fastify')).default({ logger: true });
+    const app = (await import('fastify')).default({
+      logger: true,
+      trustProxy: config.trustProxy || false,
+    });
 
     // secure headers
     app.register((await import('@fastify/helmet')).default);
@@ -62,6 +117,11 @@ function masterMain(config: IMasterConfig) {
     // parse accepts
     app.register((await import('@fastify/accepts')).default);
 
+    // websocket
+    if (mapper.find((m) => m.ws)) {
+      app.register((await import('@fastify/websocket')).default);
+    }
+
     // cookies
     if (config.auth.cookie) {
       app.register((await import('@fastify/cookie')).default, {
@@ -69,25 +129,6 @@ function masterMain(config: IMasterConfig) {
       });
     }
 
-    // rate limit
-    if (config.limit) {
-      app.register((await import('@fastify/rate-limit')).default, {
-        max: config.limit.count,
-        timeWindow: config.limit.window,
-        keyGenerator: (req) => {
-          const url = new URL(req.url, `${req.protocol}://${req.hostname}/`)
-            .pathname;
-          const ip =
-            (req.headers['x-real-ip'] as string) || // nginx
-            (req.headers['x-client-ip'] as string) || // apache
-            req.ip;
-          return config.limit.perEndpoint ? `${url}-${ip}` : ip;
-        },
-        skipOnError: true,
-        redis: new (await import('ioredis')).default(redisConfig),
-      });
-    }
-
     // custom plugins
     const plugins: FastifyPluginCallback[] = (await import('./plugin')).default;
     for (const plugin of plugins) app.register(plugin, config);
@@ -105,10 +146,65 @@ function masterMain(config: IMasterConfig) {
       };
       if (debug) result.stack = e.stack;
 
+      if (e['headers']) res.headers(e['headers']);
       res.status(statusCode);
       res.send(result);
     });
 
+    // lanes of mapped queues, by priority
+    const lanes = uniq(mapper.map((m) => laneKey(m.queue, m.priority)));
+
+    // circuit breaker per queue, probing with health job on each lane
+    const breakers: Record<string, CircuitBreaker> = {};
+    const breaker = (key: string) => {
+      if (!breakers[key]) {
+        const lanes_ = uniq(
+          mapper
+            .filter((m) => m.queue === key)
+            .map((m) => laneKey(m.queue, m.priority)),
+        );
+        breakers[key] = new CircuitBreaker(config.breaker || {}, async () => {
+          const results = await Promise.all(
+            lanes_.map(async (lane) => {
+              const queue = connectQueue('server', lane, redisConfig, app.log);
+              const data: IRequest = {
+                method: 'HEALTH',
+                url: '*',
+                headers: {},
+                query: {},
+                params: {},
+                extra: {},
+              };
+              const job: Job<IRequest> = await queue.createJob(data).save();
+              return await wait(queue, job, 3 * 1000);
+            }),
+          );
+          return results.every((r) => r.statusCode === httpStatus.OK);
+        });
+      }
+      return breakers[key];
+    };
+    const track = async <T>(
+      key: string,
+      promise: Promise<T>,
+      signal?: AbortSignal,
+    ) => {
+      try {
+        const result = await promise;
+        breaker(key).success();
+        return result;
+      } catch (e) {
+        // timeout or job failure, but not client disconnect
+        if (signal?.aborted) throw e;
+        if (e.statusCode === httpStatus.GATEWAY_TIMEOUT || !e.statusCode) {
+          breaker(key).failure();
+        } else {
+          breaker(key).success();
+        }
+        throw e;
+      }
+    };
+
     // health check
     app.get('/health', async (req, res): Promise<IResponse> => {
       // no cache
@@ -135,6 +231,7 @@ function masterMain(config: IMasterConfig) {
             return {
               ...result,
               queue: key,
+              breaker: breaker(key).state,
               elapsed: Date.now() - start,
             };
           } catch (e) {
@@ -143,6 +240,8 @@ function masterMain(config: IMasterConfig) {
               error: e.message,
               stack: e.stack,
               extra: e.extra,
+              queue: key,
+              breaker: breaker(key).state,
               elapsed: Date.now() - start,
             };
           }
@@ -168,37 +267,286 @@ function masterMain(config: IMasterConfig) {
       }
     });
 
+    // process alive
+    app.get('/health/live', async (req, res): Promise<IResponse> => {
+      res.header('cache-control', 'no-cache, no-store');
+      return {
+        statusCode: httpStatus.OK,
+        result: { uptime: process.uptime(), cluster: clusterStatus() },
+      };
+    });
+
+    // able to serve, result reused for a short while
+    let ready: Nullable<{ at: number; result: Promise<IResponse> }>;
+    const checkReady = async (): Promise<IResponse> => {
+      const timeout = config.health?.timeout || 1000;
+      const interval = config.health?.interval || 5 * 1000;
+      const redis = connectRedis(redisConfig);
+      const checks: Record<string, ICheckResult> = {};
+      const cluster_ = clusterStatus();
+      await Promise.all([
+        cluster_ &&
+          runCheck(async () => {
+            if (cluster_.crashLoop) throw new Error('Crash Loop');
+          }, timeout).then((r) => (checks.cluster = r)),
+        runCheck(() => redis.ping(), timeout).then((r) => (checks.redis = r)),
+        runCheck(() => app.sequelize.authenticate(), timeout).then(
+          (r) => (checks.database = r),
+        ),
+        ...lanes.map((key) =>
+          runCheck(async () => {
+            const status = await workerStatus(redis, key, interval * 3);
+            for (const name of Object.keys(status.checks)) {
+              checks[`${key}:${name}`] = status.checks[name];
+            }
+            if (status.workers < (config.health?.minWorkers || 1)) {
+              throw new Error(`${status.workers} Active Workers`);
+            }
+          }, timeout).then((r) => (checks[`${key}:workers`] = r)),
+        ),
+      ]);
+
+      if (Object.values(checks).find((c) => c.status === 'fail')) {
+        return {
+          statusCode: httpStatus.SERVICE_UNAVAILABLE,
+          error: httpStatus['503_NAME'],
+          extra: checks,
+        };
+      }
+      return { statusCode: httpStatus.OK, result: checks };
+    };
+    app.get('/health/ready', async (req, res): Promise<IResponse> => {
+      res.header('cache-control', 'no-cache, no-store');
+      if (!ready || Date.now() - ready.at > (config.health?.cache || 2000)) {
+        ready = { at: Date.now(), result: checkReady() };
+      }
+      const result = await ready.result;
+      res.status(result.statusCode);
+      return result;
+    });
+
+    // api document
+    let document: Record<string, any>;
+    app.get('/openapi.json', { config: { raw: true } }, async (req, res) => {
+      res.header('cache-control', 'no-cache');
+      if (!document) {
+        const queues = mapper.map((m) => m.queue);
+        document = generate(config, await loadRoutes(queues));
+      }
+      return document;
+    });
+
+    // async job status
+    app.get<{ Params: { queue: string; id: string } }>(
+      '/jobs/:queue/:id',
+      {
+        // not mapped to a worker, authenticate regardless of mapper plugins
+        onRequest: async (req) => {
+          if (!req.user) await app.authenticate(req, false);
+        },
+      },
+      async (req, res): Promise<IResponse> => {
+        res.header('cache-control', 'no-cache, no-store');
+
+        const { queue: key, id } = req.params;
+        if (!mapper.find((m) => laneKey(m.queue, m.priority) === key)) {
+          throw new NotFound();
+        }
+        const queue = connectQueue('server', key, redisConfig, req.log);
+        const job = await readJob<IRequest>(
+          connectRedis(redisConfig),
+          queue,
+          id,
+        );
+        const owner = job && jobOwner(job.data);
+        if (!job || !job.data.async || !owner || owner !== jobOwner(req)) {
+          throw new NotFound('Job Not Found');
+        }
+
+        switch (job.status) {
+          case 'succeeded': {
+            const result = await loadResult(connectRedis(redisConfig), key, id);
+            if (!result) throw new Gone('Job Result Expired');
+            res.status(result.statusCode);
+            return result;
+          }
+          case 'failed':
+            throw new InternalServerError('Job Failed');
+          default:
+            res.status(httpStatus.ACCEPTED);
+            res.header('retry-after', 1);
+            return {
+              statusCode: httpStatus.ACCEPTED,
+              result: {
+                id,
+                queue: key,
+                status: job.status,
+                progress: job.progress,
+              },
+            };
+        }
+      },
+    );
+
     // RESTful api call
-    app.all('*', async (req, res): Promise<IResponse> => {
+    const coalescer = new Coalescer(
+      config.coalesce === 'redis' ? connectRedis(redisConfig) : undefined,
+    );
+    const restful = async (
+      req: FastifyRequest,
+      res: FastifyReply,
+    ): Promise<IResponse> => {
       // default cache
       if (config.cache) applyCache(res, config.cache);
 
+      let url = new URL(req.url, `${req.protocol}://${req.hostname}/`).pathname;
+      if (req.mapper.stripPrefix) {
+        url = stripPrefix(url, req.mapper.stripPrefix) || url;
+      }
+
       const data: IRequest = {
         method: req.method as HttpMethods,
-        url: new URL(req.url, `${req.protocol}://${req.hostname}/`).pathname,
+        url,
         headers: req.headers,
         query: req.query,
         params: req.params,
         user: req.user,
         extra: req.extra,
+        traceparent: formatTraceparent(req.span),
       };
 
-      const queue = connectQueue(
-        'server',
-        req.mapper.queue,
-        redisConfig,
-        req.log,
-      );
+      const lane = laneKey(req.mapper.queue, req.mapper.priority);
+      const queue = connectQueue('server', lane, redisConfig, req.log);
+      const options = jobOptions(req.mapper, req.method);
       if (['POST', 'PUT', 'PATCH'].indexOf(req.method) > -1) {
         (data as IBodyRequest).body = req.body;
       }
-      const job: Job<IRequest> = await queue.createJob(data).save();
-      const result = await wait<IRequest>(
-        queue,
-        job,
-        config.timeout || 30 * 1000,
+
+      // respond 202 for long-running job
+      const prefer = ((req.headers.prefer as string) || '')
+        .split(',')
+        .map((p) => p.trim());
+      if (req.mapper.async || prefer.indexOf('respond-async') > -1) {
+        data.async = true;
+        // only the owner can read the job status
+        if (!jobOwner(req)) throw new BadRequest('Missing Device Token');
+        breaker(req.mapper.queue).check();
+        const job = await createJob(queue, data, options);
+        res.status(httpStatus.ACCEPTED);
+        res.header('location', `/jobs/${lane}/${job.id}`);
+        if (!req.mapper.async)
+          res.header('preference-applied', 'respond-async');
+        return {
+          statusCode: httpStatus.ACCEPTED,
+          result: { id: job.id, queue: lane, status: job.status },
+        };
+      }
+
+      // relay chunks as server-sent events
+      const accept = (req.headers.accept as string) || '';
+      if (req.mapper.stream || accept.indexOf('text/event-stream') > -1) {
+        breaker(req.mapper.queue).check();
+        const job = await createJob(queue, data, options);
+        res.hijack();
+        res.raw.writeHead(httpStatus.OK, {
+          ...res.getHeaders(),
+          'content-type': 'text/event-stream',
+          'cache-control': 'no-cache',
+          connection: 'keep-alive',
+        });
+        await relay(
+          queue,
+          job,
+          res,
+          waitTime(
+            options,
+            config.stream?.timeout || config.timeout || 30 * 1000,
+          ),
+          config.stream?.heartbeat || 15 * 1000,
+        );
+        return;
+      }
+
+      const timeout = waitTime(options, config.timeout || 30 * 1000);
+      const cacheable =
+        ['GET', 'HEAD'].indexOf(req.method) > -1 &&
+        !/no-cache|no-store/.test(
+          (req.headers['cache-control'] as string) || '',
+        );
+      const coalesce =
+        cacheable &&
+        (req.mapper.coalesce === undefined
+          ? !!config.coalesce
+          : req.mapper.coalesce);
+      // cancel job if client disconnects before response
+      const controller = new AbortController();
+      res.raw.on('close', () => {
+        if (!res.raw.writableFinished) {
+          controller.abort(new Error('Client Disconnected'));
+        }
+      });
+      const fetch = async () => {
+        breaker(req.mapper.queue).check();
+        // attach to identical request in flight
+        if (coalesce) {
+          const key = coalesceKey(req.mapper.queue, data, req.mapper.public);
+          const create = () => createJob(queue, data, options);
+          // breaker counts the shared job once, not once per request
+          return await coalescer.run(key, queue, create, timeout, (job) =>
+            track(req.mapper.queue, job),
+          );
+        }
+        const job = await createJob(queue, data, options);
+        return await track(
+          req.mapper.queue,
+          wait<IRequest>(queue, job, timeout, controller.signal),
+          controller.signal,
+        );
+      };
+
+      // shared response cache
+      const responseCache = new ResponseCache(connectRedis(redisConfig));
+      const key = cacheKey(
+        req.method,
+        req.mapper.queue,
+        url,
+        req.query as Record<string, any>,
       );
+      const store = (result: IResponse) => {
+        if (cacheable && isShareable(result)) {
+          responseCache
+            .set(key, req.headers, result)
+            .catch((e) => req.log.warn(e, 'Fail to store response cache'));
+        }
+      };
+      if (cacheable) {
+        let hit: Nullable<ICacheHit>;
+        try {
+          hit = await responseCache.get(key, req.headers);
+        } catch (e) {
+          req.log.warn(e, 'Fail to load response cache');
+        }
+        if (hit) {
+          const { result, age, stale } = hit;
+          // serve stale entry while one request refreshes it
+          if (stale && (await responseCache.lock(key, timeout))) {
+            fetch()
+              .then(store)
+              .catch((e) => req.log.warn(e, 'Fail to revalidate response'));
+          }
+          res.status(result.statusCode);
+          applyCache(res, result.cache);
+          res.header('age', age);
+          res.header('x-cache', stale ? 'STALE' : 'HIT');
+          delete result.cache;
+          return result;
+        }
+      }
+
+      const result = await fetch();
       res.status(result.statusCode);
+      store(result);
+      if (cacheable) res.header('x-cache', 'MISS');
 
       if ('cache' in result) {
         applyCache(res, result.cache);
@@ -206,22 +554,100 @@ function masterMain(config: IMasterConfig) {
       }
 
       return result;
+    };
+
+    // websocket messages as jobs
+    let hub: SocketHub;
+    const wsHandler = (connection: SocketStream, req: FastifyRequest) => {
+      if (!req.mapper?.ws) {
+        return connection.socket.close(1008, 'Not WebSocket Route');
+      }
+      if (!hub) {
+        hub = new SocketHub(connectRedis(redisConfig).duplicate());
+        onShutdown('close', () => hub.close());
+      }
+
+      let url = new URL(req.url, `${req.protocol}://${req.hostname}/`).pathname;
+      if (req.mapper.stripPrefix) {
+        url = stripPrefix(url, req.mapper.stripPrefix) || url;
+      }
+      const queue = connectQueue(
+        'server',
+        laneKey(req.mapper.queue, req.mapper.priority),
+        redisConfig,
+        req.log,
+      );
+      const options = jobOptions(req.mapper, 'WS');
+      const id = hub.add(connection.socket, req.user);
+
+      connection.socket.on('message', async (message) => {
+        let result: IResponse;
+        try {
+          const data: IBodyRequest = {
+            method: 'WS',
+            url,
+            headers: req.headers,
+            query: req.query,
+            params: req.params,
+            user: req.user,
+            extra: { ...req.extra, connection: id },
+            traceparent: formatTraceparent(req.span),
+            body: JSON.parse(message.toString()),
+          };
+          breaker(req.mapper.queue).check();
+          const job = await createJob(queue, data, options);
+          result = await track(
+            req.mapper.queue,
+            wait<IRequest>(
+              queue,
+              job,
+              waitTime(options, config.timeout || 30 * 1000),
+            ),
+          );
+        } catch (e) {
+          result = {
+            statusCode: e.statusCode || httpStatus.INTERNAL_SERVER_ERROR,
+            error: e.message,
+            extra: e.extra,
+          };
+        }
+        hub.send(id, result);
+      });
+    };
+
+    app.route({
+      method: ['DELETE', 'PATCH', 'POST', 'PUT', 'OPTIONS'],
+      url: '*',
+      handler: restful,
     });
+    app.route({ method: 'GET', url: '*', handler: restful, wsHandler });
+
+    // stop accepting requests, and finish those in flight
+    onShutdown('stop', () => app.close());
+    onShutdown('drain', () => drainWaits());
 
     await app.listen({ host: '0.0.0.0', port });
+    reportReady();
   });
 }
 
 function workerMain(config: IWorkerConfig) {
   const myLogger = logger('Worker');
+  useRegistry(workerRegistry);
   logSection('Initialize Worker', myLogger, async () => {
     const redisConfig = config.redis || {};
 
     const dependencies = new Dependencies();
+    const healthChecks = new HealthChecks(
+      connectRedis(redisConfig),
+      config.health?.timeout || 1000,
+    );
 
     if (config.database) {
       const sequelize = await connectDB(config);
+      onShutdown('close', () => sequelize.close());
       dependencies.register(sequelize); // Sequelize
+      healthChecks.register('database', () => sequelize.authenticate());
 
       const daoHelper = new DaoHelper(sequelize);
       for (const [daoClass, customDao, options] of daos) {
@@ -233,6 +659,34 @@ function workerMain(config: IWorkerConfig) {
       dependencies.register(daoHelper); // DaoHelper
     }
 
+    dependencies.register(new Sockets(connectRedis(redisConfig))); // Sockets
+    dependencies.register(new ResponseCache(connectRedis(redisConfig))); // ResponseCache
+    dependencies.register(healthChecks); // HealthChecks
+
+    const cancelListener = new CancelListener(
+      connectRedis(redisConfig).duplicate(),
+    );
+    onShutdown('close', () => cancelListener.close());
+
+    // lanes processed per queue, by priority
+    const lanes: Record<string, Record<string, number>> = {};
+    for (const key of config.modules) {
+      lanes[key] = laneConcurrency(key, config.concurrency);
+    }
+    const laneKeys = Object.values(lanes).reduce<string[]>(
+      (keys, lanes_) => [...keys, ...Object.keys(lanes_)],
+      [],
+    );
+
+    // stop reporting active, and finish active jobs after the gateway in
+    // the same process has got its results
+    onShutdown('stop', () => healthChecks.stop(laneKeys));
+    onShutdown('drain', async (remaining) => {
+      const deadline = Date.now() + remaining;
+      await drainWaits();
+      await closeWorkers(Math.max(deadline - Date.now(), 0));
+    });
+
     const dependencies_ = require('./dependency') || {};
     await Promise.all(
       Object.keys(dependencies_).map(async (key) => {
@@ -240,43 +694,100 @@ function workerMain(config: IWorkerConfig) {
       }),
     );
 
+    // report active after all queues are processing
     Promise.all(
       config.modules.map((key) => {
         const queueLogger = logger(`Queue:${key}`);
         return import(resolve(__dirname, 'queue', key)).then(
           async ({ default: module }) => {
-            const queue = await connectQueue(
-              'worker',
-              key,
-              redisConfig,
-              queueLogger,
-            );
             const queueInst = new module(config, dependencies);
-            return queue.process(
-              (job: Job<IRequest>, done: DoneCallback<IResult>) => {
-                queueLogger.info(job.data);
-                queueInst
-                  .run(job.data)
-                  .then((result) => done(null, result))
-                  .catch((e) => {
-                    queueLogger.error(e, e.message);
-                    done(e.statusCode ? new Error(e.statusCode) : e);
-                  });
-              },
+            return Promise.all(
+              Object.keys(lanes[key]).map((lane) => {
+                const queue = connectQueue(
+                  'worker',
+                  lane,
+                  redisConfig,
+                  queueLogger,
+                );
+                return queue.process(
+                  lanes[key][lane],
+                  (job: Job<IRequest>, done: DoneCallback<IResult>) => {
+                    const span = startSpan(
+                      `job ${lane}`,
+                      parseTraceparent(job.data.traceparent),
+                      'consumer',
+                      {
+                        'job.queue': lane,
+                        'job.id': job.id,
+                        'http.method': job.data.method,
+                        'http.target': job.data.url,
+                      },
+                    );
+                    runInSpan(span, () => {
+                      queueLogger.info(job.data);
+                      jobsActive.inc({ queue: lane });
+                      const context: IContext = {
+                        emit: (data, event = 'message') => {
+                          job.reportProgress({ event, data });
+                          // for job status resource
+                          if (job.data.async) {
+                            saveProgress(
+                              connectRedis(redisConfig),
+                              lane,
+                              job.id,
+                              { event, data },
+                              config.jobs?.ttl || 60 * 60,
+                            ).catch((e) =>
+                              queueLogger.warn(e, 'Fail to save progress'),
+                            );
+                          }
+                        },
+                        signal: cancelListener.signal(lane, job.id),
+                      };
+                      jobContext
+                        .run(context, () => queueInst.run(job.data, context))
+                        .then(async (result) => {
+                          // keep result for job status resource
+                          if (job.data.async) {
+                            await saveResult(
+                              connectRedis(redisConfig),
+                              lane,
+                              job.id,
+                              result,
+                              config.jobs?.ttl || 60 * 60,
+                            );
+                          }
+                          endSpan(span, 'error' in result && result.error);
+                          done(null, result);
+                        })
+                        .catch((e) => {
+                          queueLogger.error(e, e.message);
+                          endSpan(span, e);
+                          done(e.statusCode ? new Error(e.statusCode) : e);
+                        })
+                        .finally(() => {
+                          jobsActive.dec({ queue: lane });
+                          cancelListener.release(lane, job.id);
+                        });
+                    });
+                  },
+                );
+              }),
             );
           },
         );
       }),
-    );
+    ).then(() => {
+      healthChecks.start(laneKeys, config.health?.interval || 5 * 1000);
+      reportReady();
+    });
   });
 }
 
 async function main() {
-  const content = await readFile(
-    resolve(base ? 'templates' : 'configs', `config.${NODE_ENV}.yaml`),
-    'utf8',
-  );
-  const config = yaml.load(content) as IConfig;
+  const config = await loadConfig({ dir: argv.config, env: NODE_ENV });
+  configureTracing(config.tracing);
+  handleShutdown(config.shutdown?.timeout || 30 * 1000, logger('Shutdown'));
   let clusters: number;
   if (config.clusters === true) {
     clusters = cpus().length;
@@ -299,6 +810,12 @@ async function main() {
       break;
   }
 
+  // primary process collects metrics of forked processes
+  if (config.metrics && cluster.isPrimary) {
+    const server = serveMetrics(config.metrics.port || 9100, logger('Metrics'));
+    onShutdown('close', () => server.close());
+  }
+
   if (!clusters) {
     if (serverType !== ServerType.WORKER) {
       masterMain(config as IMasterConfig);
@@ -310,9 +827,7 @@ async function main() {
   }
 
   if (cluster.isPrimary) {
-    for (let i = 0; i < clusters; i++) {
-      cluster.fork();
-    }
+    supervise(clusters, config, logger('Supervisor'));
     if (serverType === ServerType.HYBRID) {
       masterMain(config as IMasterConfig);
     }
@@ -323,4 +838,7 @@ async function main() {
   }
 }
 
-main();
+main().catch((e) => {
+  logger().fatal(e, e.message);
+  process.exit(1);
+});
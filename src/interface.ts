@@ -1,4 +1,5 @@
 import type { Logger } from 'pino';
+import type { JSONSchema } from './schema';
 import type { Includeable } from 'sequelize';
 
 import { InternalServerError } from 'http-errors';
@@ -26,7 +27,29 @@ export class Dependencies {
 
 export interface IBaseConfig {
   clusters?: boolean | number;
+  supervisor?: ISupervisorOptions; // restart and reload cluster forks
   timeout?: number;
+  jobs?: {
+    ttl?: number; // seconds to keep async job results
+  };
+  shutdown?: {
+    timeout?: number; // milliseconds to drain before exit, across cluster forks
+  };
+  tracing?: {
+    service?: string; // service.name of spans
+    endpoint?: string; // OTLP/HTTP JSON collector, e.g. http://localhost:4318/v1/traces
+    headers?: Record<string, string>; // sent to collector
+    file?: string; // append spans for local debugging
+  };
+  metrics?: {
+    port?: number; // serve prometheus metrics of all cluster processes
+  };
+  health?: {
+    timeout?: number; // milliseconds per check
+    cache?: number; // milliseconds to reuse readiness result
+    interval?: number; // milliseconds between worker heartbeats
+    minWorkers?: number; // active workers required per queue
+  };
   redis?: {
     secure?: boolean;
     host?: string;
@@ -55,28 +78,78 @@ export interface ICache {
   noCache?: boolean;
   noStore?: boolean;
   maxAge?: number;
+  staleWhileRevalidate?: number;
   lastModified?: string;
+  etag?: string;
+  vary?: string[];
+  tags?: string[];
+}
+
+export interface ILimitPolicy {
+  count: number;
+  window: number; // in milliseconds
+  key?: 'ip' | 'user' | 'apiKey' | 'device'; // fallback to ip if missing
+  perEndpoint?: boolean;
+}
+
+export interface IBackoff {
+  strategy: 'fixed' | 'exponential';
+  delay: number; // milliseconds, doubled every retry if exponential
+}
+
+// bee-queue has no job priority, each priority is a separate queue
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface IBreakerOptions {
+  threshold?: number; // consecutive failures to open
+  cooldown?: number; // milliseconds before probing
+}
+
+export interface ISupervisorOptions {
+  delay?: number; // milliseconds before restarting a crashed fork, doubled per crash
+  maxDelay?: number; // milliseconds
+  maxRestarts?: number; // crashes of a fork within window to stop restarting it
+  window?: number; // milliseconds
+  readyTimeout?: number; // milliseconds for a new fork to report ready on reload
+}
+
+export interface IIpFilter {
+  allow?: string[]; // CIDRs, allow all if empty
+  deny?: string[]; // CIDRs
 }
 
 export interface IMasterConfig extends IBaseConfig {
   port?: number;
+  trustProxy?: string[]; // CIDRs of proxies trusted to forward client ip
+  ipFilter?: IIpFilter;
   package?: string;
   cache?: ICache;
-  limit?: {
-    count: number;
-    window: number;
-    perEndpoint: boolean;
+  limit?: ILimitPolicy;
+  breaker?: IBreakerOptions; // circuit breaker per queue
+  coalesce?: boolean | 'redis'; // share in-flight GET jobs, across processes with redis
+  idempotency?: {
+    ttl?: number; // seconds to keep the first response
+    lock?: number; // seconds to reject duplicates of a pending request
   };
   auth: {
     cookie?: ITokenOptions;
     access_token: ITokenOptions;
     refresh_token: ITokenOptions;
+    strict?: boolean; // reject missing access token
+    model?: string; // resolve user from database
+  };
+  stream?: {
+    heartbeat?: number;
+    timeout?: number;
   };
   mapper: IMapper[];
 }
 
 export interface IWorkerConfig extends IBaseConfig {
   modules: string[];
+  concurrency?: Partial<Record<JobPriority, number>>; // jobs processed at once per priority, 1 by default, 0 not processing
 }
 
 export type IConfig = IMasterConfig | IWorkerConfig;
@@ -91,16 +164,64 @@ export interface IMapper {
   method?: HttpMethods;
   path: string;
   queue: string;
+  stripPrefix?: string; // removed from url before forwarding to queue
+  async?: boolean; // respond 202 with job status resource
+  stream?: boolean; // relay emitted chunks as server-sent events
+  ws?: boolean; // accept websocket, messages become jobs
+  strict?: boolean; // override auth.strict
+  roles?: string[]; // require any of the roles
+  permissions?: string[]; // require all of the permissions
+  limit?: ILimitPolicy | ILimitPolicy[]; // override global limit
+  ipFilter?: IIpFilter; // in addition to global filter
+  coalesce?: boolean; // override global coalesce
+  timeout?: number; // milliseconds per attempt, override global timeout
+  retries?: number; // retry failed job, for idempotent methods only
+  retryUnsafe?: boolean; // retry non-idempotent methods as well
+  backoff?: IBackoff; // delay between retries
+  priority?: JobPriority;
+  public?: boolean; // response does not depend on authorization
   plugins?: string[];
 }
 
+export interface IRoute {
+  handler: string;
+  paths: Array<{ method: string; path?: string }>;
+  body?: Record<string, string>;
+  headers?: Record<string, string>;
+  schemas?: {
+    body?: JSONSchema;
+    query?: JSONSchema;
+    params?: JSONSchema;
+  };
+  cache?: ICache;
+  lastModified?: boolean;
+  etag?: boolean;
+  roles?: string[];
+  permissions?: string[];
+}
+
+export interface IFieldError {
+  in: 'body' | 'query' | 'params' | 'headers';
+  field: string;
+  message: string;
+}
+
 export interface IJwtPayload {
   i: number; // id
+  r?: string[]; // roles
+  p?: string[]; // permissions
+  fid?: string; // token family
+  jti?: string;
+  iat?: number;
+  exp?: number;
+  nbf?: number;
   // TODO
 }
 
 export interface IUser {
   id: number;
+  roles?: string[];
+  permissions?: string[];
   // TODO
 }
 
@@ -108,6 +229,7 @@ export interface IUser {
 export type HttpMethods =
   | 'ALL'
   | 'HEALTH'
+  | 'WS'
   | 'GET'
   | 'HEAD'
   | 'POST'
@@ -127,11 +249,13 @@ interface IBaseRequest<Q, P, E> {
   params: P;
   user?: IUser;
   extra: E;
+  async?: boolean;
+  traceparent?: string; // W3C trace context of the gateway request
 }
 
 export interface IBodyRequest<B = any, Q = any, P = any, E = any>
   extends IBaseRequest<Q, P, E> {
-  method: 'ALL' | 'POST' | 'PUT' | 'PATCH';
+  method: 'ALL' | 'POST' | 'PUT' | 'PATCH' | 'WS';
   body?: B;
 }
 
@@ -139,6 +263,13 @@ export type IRequest<B = any, Q = any, P = any, E = any> =
   | IBaseRequest<Q, P, E>
   | IBodyRequest<B, Q, P>;
 
+export interface IContext {
+  // send incremental chunk to streaming client
+  emit(data: any, event?: string): void;
+  // aborted when gateway gives up the request
+  signal: AbortSignal;
+}
+
 export type IResponse<T = any> = IResult<T> | IError<T>;
 
 interface IBaseResponse {
@@ -1,5 +1,18 @@
 import pino from 'pino';
 
+import { currentTrace } from './trace';
+
+// tag logs with the running span
+function mixin() {
+  const trace = currentTrace();
+  return trace ? { traceId: trace.traceId, spanId: trace.spanId } : {};
+}
+
 // REMARK use any as pino.LoggerOptions fail due to private interface redactOptions
 export default (name?: string, options: any = {}) =>
-  pino({ ...options, name, level: process.env.DEBUG ? 'debug' : 'info' });
+  pino({
+    mixin,
+    ...options,
+    name,
+    level: process.env.DEBUG ? 'debug' : 'info',
+  });
@@ -0,0 +1,124 @@
+import type { AddressInfo } from 'net';
+
+import { fork } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import httpStatus = require('http-status');
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Path, Queue } from './decorator';
+import { collect, serveMetrics, useRegistry, workerRegistry } from './metrics';
+
+@Queue()
+class MetricQueue {
+  @Path('GET', '/ok')
+  ok() {
+    return { statusCode: httpStatus.OK, result: 'OK' };
+  }
+}
+
+test('collect job metrics per handler', async () => {
+  useRegistry(workerRegistry);
+  const queue = new MetricQueue() as any;
+  const request = { headers: {}, query: {}, params: {}, extra: {} };
+  await queue.run({ ...request, method: 'GET', url: '/ok' });
+  await queue.run({ ...request, method: 'GET', url: '/missing' });
+
+  const result = await collect();
+  expect(result).toContain(
+    'job_duration_seconds_count{handler="MetricQueue.ok"} 1',
+  );
+  expect(result).toContain(
+    'job_errors_total{handler="MetricQueue.none",status="404"} 1',
+  );
+});
+
+/**
+ * metrics collected by the primary process of a cluster with one fork
+ * @param primaryRegistry boolean whether the primary serves gateway as well
+ */
+async function collectCluster(primaryRegistry: boolean) {
+  // primary in a process of its own, as modules of other specs in this
+  // process listen to cluster messages as well
+  const dir = await mkdtemp(join(tmpdir(), 'metrics-'));
+  const exec = join(dir, 'cluster.js');
+  const modulePath = (id: string) => JSON.stringify(require.resolve(id));
+  await writeFile(
+    exec,
+    [
+      `require(${modulePath('ts-node')}).register({ transpileOnly: true });`,
+      "const cluster = require('cluster');",
+      `const metrics = require(${modulePath('./metrics')});`,
+      'if (cluster.isPrimary) {',
+      `  if (${primaryRegistry}) {`,
+      '    metrics.useRegistry(metrics.gatewayRegistry);',
+      "    metrics.httpRequests.inc({ mapper: '/ok', method: 'GET', status: 200 });",
+      '  }',
+      '  const worker = cluster.fork();',
+      "  worker.once('message', async () => {",
+      '    process.send(await metrics.collect().catch((e) => e.message));',
+      '    worker.kill();',
+      '  });',
+      '} else {',
+      '  metrics.useRegistry(metrics.workerRegistry);',
+      "  metrics.jobErrors.inc({ handler: 'Fork.ok', status: '500' }, 2);",
+      "  process.send('ready');",
+      '}',
+    ].join('\n'),
+  );
+  const primary = fork(exec, [], { execArgv: [] });
+  const exited = new Promise((resolve) => primary.once('exit', resolve));
+  try {
+    return await new Promise<string>((resolve) =>
+      primary.once('message', resolve),
+    );
+  } finally {
+    primary.kill();
+    await exited;
+    await rm(dir, { recursive: true });
+  }
+}
+
+test(
+  'aggregate metrics of forked processes',
+  async () => {
+    const result = await collectCluster(true);
+    expect(result).toContain(
+      'http_requests_total{mapper="/ok",method="GET",status="200"} 1',
+    );
+    expect(result).toContain(
+      'job_errors_total{handler="Fork.ok",status="500"} 2',
+    );
+  },
+  30 * 1000,
+);
+
+test(
+  'aggregate metrics of forks only, without registry in primary',
+  async () => {
+    const result = await collectCluster(false);
+    expect(result).not.toContain('http_requests_total');
+    expect(result).toContain(
+      'job_errors_total{handler="Fork.ok",status="500"} 2',
+    );
+  },
+  30 * 1000,
+);
+
+test('report port in use without crashing', async () => {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const logger = { error: jest.fn() };
+  try {
+    const { port } = server.address() as AddressInfo;
+    const metrics = serveMetrics(port, logger as any);
+    await new Promise((resolve) => metrics.once('error', resolve));
+    expect(logger.error).toBeCalledWith(
+      expect.objectContaining({ code: 'EADDRINUSE' }),
+      expect.stringContaining('Metrics server failed'),
+    );
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,135 @@
+import type { Logger } from 'pino';
+
+import * as _cluster from 'cluster';
+import { createServer } from 'http';
+import {
+  AggregatorRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+const cluster = _cluster as unknown as _cluster.Cluster;
+
+export const gatewayRegistry = new Registry();
+export const workerRegistry = new Registry();
+
+// gateway
+
+export const httpRequests = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by mapper, method and status',
+  labelNames: ['mapper', 'method', 'status'],
+  registers: [gatewayRegistry],
+});
+
+export const httpDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by mapper, method and status',
+  labelNames: ['mapper', 'method', 'status'],
+  registers: [gatewayRegistry],
+});
+
+export const queueWait = new Histogram({
+  name: 'queue_wait_seconds',
+  help: 'Time waiting for job results per queue',
+  labelNames: ['queue'],
+  registers: [gatewayRegistry],
+});
+
+export const queueTimeouts = new Counter({
+  name: 'queue_timeouts_total',
+  help: 'Jobs given up after timeout per queue',
+  labelNames: ['queue'],
+  registers: [gatewayRegistry],
+});
+
+export const rateLimitRejections = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests rejected by rate limit per mapper',
+  labelNames: ['mapper'],
+  registers: [gatewayRegistry],
+});
+
+// worker
+
+export const jobDuration = new Histogram({
+  name: 'job_duration_seconds',
+  help: 'Job processing time per handler',
+  labelNames: ['handler'],
+  registers: [workerRegistry],
+});
+
+export const jobErrors = new Counter({
+  name: 'job_errors_total',
+  help: 'Error responses per handler and status',
+  labelNames: ['handler', 'status'],
+  registers: [workerRegistry],
+});
+
+export const jobsActive = new Gauge({
+  name: 'jobs_active',
+  help: 'Jobs being processed per queue',
+  labelNames: ['queue'],
+  registers: [workerRegistry],
+});
+
+export const queryDuration = new Histogram({
+  name: 'sequelize_query_duration_seconds',
+  help: 'Sequelize query time per statement type',
+  labelNames: ['type'],
+  registers: [workerRegistry],
+});
+
+// registries in use by this process
+const registries = new Set<Registry>();
+
+// answers the primary process in forks, and asks forks in the primary
+const aggregator = new AggregatorRegistry();
+
+/**
+ * expose metrics of this process, aggregated with forked processes
+ * @param registry Registry
+ */
+export function useRegistry(registry: Registry) {
+  registries.add(registry);
+  AggregatorRegistry.setRegistries([...registries]);
+}
+
+/**
+ * metrics of this process and all forked processes
+ */
+export async function collect() {
+  // none in the primary process of forks serving gateway or worker only
+  const result = registries.size
+    ? [await Registry.merge([...registries]).metrics()]
+    : [];
+  if (cluster.isPrimary && Object.keys(cluster.workers || {}).length) {
+    result.push(await aggregator.clusterMetrics());
+  }
+  return result.filter((r) => r).join('\n');
+}
+
+/**
+ * serve metrics for prometheus to scrape
+ * @param port number
+ * @param logger Logger reporting failure to listen, e.g. port in use
+ */
+export function serveMetrics(port: number, logger: Logger) {
+  return createServer(async (req, res) => {
+    if (req.url !== '/metrics') {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const result = await collect();
+      res.writeHead(200, { 'content-type': Registry.PROMETHEUS_CONTENT_TYPE });
+      res.end(result);
+    } catch (e) {
+      res.writeHead(500).end(e.message);
+    }
+  })
+    .on('error', (e) => logger.error(e, `Metrics server failed: ${e.message}`))
+    .listen(port);
+}
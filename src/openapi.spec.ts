@@ -0,0 +1,61 @@
+import { IMasterConfig } from './interface';
+import { generate } from './openapi';
+
+const config = {
+  auth: {},
+  mapper: [
+    { path: '/users/*', queue: 'users', plugins: ['authenticate'] },
+    { method: 'GET', path: '/version', queue: 'default' },
+  ],
+} as IMasterConfig;
+
+test('document routes matched by mapper', () => {
+  const { paths } = generate(config, {
+    users: [
+      {
+        handler: 'getUser',
+        paths: [{ method: 'GET', path: '/users/:id' }],
+        lastModified: true,
+      },
+      {
+        handler: 'createUser',
+        paths: [{ method: 'POST', path: '/users/new' }],
+        body: { username: 'Username' },
+      },
+    ],
+  });
+  expect(Object.keys(paths)).toEqual(['/users/{id}', '/users/new', '/version']);
+  expect(paths['/users/{id}'].get.parameters.map((p) => p.name)).toEqual([
+    'id',
+    'if-modified-since',
+    'x-device-token',
+  ]);
+  expect(paths['/users/{id}'].get.security).toEqual([{ bearerAuth: [] }]);
+  expect(
+    paths['/users/new'].post.requestBody.content['application/json'].schema
+      .required,
+  ).toEqual(['username']);
+});
+
+test('fallback to mapper without worker routes', () => {
+  const { paths } = generate(config, {});
+  expect(Object.keys(paths)).toEqual(['/version']);
+  expect(Object.keys(paths['/version'])).toEqual(['get']);
+});
+
+test('prepend stripped prefix to worker routes', () => {
+  const { paths } = generate(
+    {
+      auth: {},
+      mapper: [
+        { path: '/api/v1/users/*', queue: 'users', stripPrefix: '/api/v1' },
+      ],
+    } as IMasterConfig,
+    {
+      users: [
+        { handler: 'get', paths: [{ method: 'GET', path: '/users/:id' }] },
+      ],
+    },
+  );
+  expect(Object.keys(paths)).toEqual(['/api/v1/users/{id}']);
+});
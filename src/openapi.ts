@@ -0,0 +1,284 @@
+import type { IMapper, IMasterConfig, IRoute } from './interface';
+import type { JSONSchema } from './schema';
+
+import httpStatus = require('http-status');
+import uniq = require('lodash.uniq');
+import { match } from 'node-match-path';
+import { resolve } from 'path';
+
+import { fixUrl } from './utils';
+
+const methods = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const bodyMethods = ['POST', 'PUT', 'PATCH'];
+
+type Operation = Record<string, any>;
+
+function expandMethod(method = 'ALL') {
+  const METHOD = method.toLocaleUpperCase();
+  return METHOD === 'ALL' ? methods : methods.filter((m) => m === METHOD);
+}
+
+// convert node-match-path pattern '/users/:id' to '/users/{id}'
+function toOpenApiPath(path: string) {
+  return fixUrl(path).replace(/:([^/?]+)\??/g, '{$1}') || '/';
+}
+
+function pathParameters(path: string, schema?: JSONSchema) {
+  return (fixUrl(path).match(/:[^/?]+/g) || []).map((p) => ({
+    name: p.substring(1),
+    in: 'path',
+    required: true,
+    schema: schema?.properties?.[p.substring(1)] || { type: 'string' },
+  }));
+}
+
+function queryParameters(schema: JSONSchema) {
+  const required = schema.required || [];
+  return Object.keys(schema.properties || {}).map((name) => ({
+    name,
+    in: 'query',
+    required: required.indexOf(name) > -1,
+    schema: schema.properties[name],
+  }));
+}
+
+function operation(
+  method: string,
+  path: string,
+  mapper: IMapper,
+  route?: IRoute,
+): Operation {
+  const plugins = mapper.plugins || [];
+  const parameters: Operation[] = pathParameters(path, route?.schemas?.params);
+  const responses: Operation = {
+    [httpStatus.OK]: { description: httpStatus['200_NAME'], headers: {} },
+  };
+  const result: Operation = {
+    operationId: `${mapper.queue}.${route?.handler || 'default'}.${method}`,
+    tags: [mapper.queue],
+    parameters,
+    responses,
+  };
+
+  if (route?.schemas?.query) {
+    parameters.push(...queryParameters(route.schemas.query));
+  }
+
+  if (route?.headers) {
+    for (const field of Object.keys(route.headers)) {
+      parameters.push({
+        name: field,
+        in: 'header',
+        required: true,
+        description: route.headers[field],
+        schema: { type: 'string' },
+      });
+    }
+  }
+
+  if (route?.body && bodyMethods.indexOf(method) > -1) {
+    result.requestBody = {
+      required: true,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: Object.keys(route.body),
+            properties: Object.keys(route.body).reduce(
+              (r, field) => ({
+                ...r,
+                [field]: { description: route.body[field] },
+              }),
+              {},
+            ),
+          },
+        },
+      },
+    };
+  }
+
+  if (route?.schemas?.body && bodyMethods.indexOf(method) > -1) {
+    result.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: route.schemas.body } },
+    };
+  }
+
+  if (route?.body || route?.headers || route?.schemas) {
+    responses[httpStatus.BAD_REQUEST] = {
+      description: 'Validation Error',
+    };
+  }
+
+  if (route?.cache) {
+    responses[httpStatus.OK].headers['cache-control'] = {
+      schema: { type: 'string' },
+    };
+  }
+
+  if (route?.lastModified) {
+    parameters.push({
+      name: 'if-modified-since',
+      in: 'header',
+      schema: { type: 'string' },
+    });
+    responses[httpStatus.OK].headers['last-modified'] = {
+      schema: { type: 'string' },
+    };
+    responses[httpStatus.NOT_MODIFIED] = {
+      description: httpStatus['304_NAME'],
+    };
+  }
+
+  if (route?.etag) {
+    const safe = method === 'GET';
+    parameters.push({
+      name: safe ? 'if-none-match' : 'if-match',
+      in: 'header',
+      schema: { type: 'string' },
+    });
+    if (safe) {
+      responses[httpStatus.OK].headers['etag'] = {
+        schema: { type: 'string' },
+      };
+      responses[httpStatus.NOT_MODIFIED] = {
+        description: httpStatus['304_NAME'],
+      };
+    } else {
+      responses[httpStatus.PRECONDITION_FAILED] = {
+        description: httpStatus['412_NAME'],
+      };
+    }
+  }
+
+  if (plugins.indexOf('authenticate') > -1) {
+    parameters.push({
+      name: 'x-device-token',
+      in: 'header',
+      required: true,
+      schema: { type: 'string' },
+    });
+    result.security = [{ bearerAuth: [] }];
+    responses[httpStatus.UNAUTHORIZED] = {
+      description: httpStatus['401_NAME'],
+    };
+  }
+
+  if (plugins.indexOf('signTokens') > -1) {
+    responses[httpStatus.OK].headers['authorization'] = {
+      schema: { type: 'string' },
+    };
+    responses[httpStatus.OK].headers['x-refresh-token'] = {
+      schema: { type: 'string' },
+    };
+  }
+
+  if (
+    mapper.roles?.length ||
+    mapper.permissions?.length ||
+    route?.roles ||
+    route?.permissions
+  ) {
+    responses[httpStatus.FORBIDDEN] = {
+      description: httpStatus['403_NAME'],
+    };
+  }
+
+  if (mapper.limit) {
+    responses[httpStatus.TOO_MANY_REQUESTS] = {
+      description: httpStatus['429_NAME'],
+      headers: { 'retry-after': { schema: { type: 'integer' } } },
+    };
+  }
+
+  // result is served by job status resource
+  if (mapper.async) {
+    responses[httpStatus.ACCEPTED] = {
+      description: httpStatus['202_NAME'],
+      headers: { location: { schema: { type: 'string' } } },
+    };
+  }
+
+  return result;
+}
+
+/**
+ * load route descriptions from worker modules
+ * @param queues string[] queue names
+ * @returns routes by queue name
+ */
+export async function loadRoutes(queues: string[]) {
+  const result: Record<string, IRoute[]> = {};
+  for (const key of uniq(queues)) {
+    try {
+      const { default: module } = await import(
+        resolve(__dirname, 'queue', key)
+      );
+      result[key] =
+        typeof module.describe === 'function' ? module.describe() : [];
+    } catch (e) {
+      // module not available in this server
+      result[key] = [];
+    }
+  }
+  return result;
+}
+
+/**
+ * generate OpenAPI 3 document
+ * @param config IMasterConfig
+ * @param routes routes by queue name
+ * @returns OpenAPI document
+ */
+export function generate(
+  config: IMasterConfig,
+  routes: Record<string, IRoute[]>,
+) {
+  const paths: Record<string, Record<string, Operation>> = {};
+
+  function add(method: string, path: string, operation: Operation) {
+    const path_ = toOpenApiPath(path);
+    if (!paths[path_]) paths[path_] = {};
+    const method_ = method.toLocaleLowerCase();
+    if (!paths[path_][method_]) paths[path_][method_] = operation;
+  }
+
+  for (const mapper of config.mapper || []) {
+    const mapperMethods = expandMethod(mapper.method);
+    let documented = false;
+
+    for (const route of routes[mapper.queue] || []) {
+      for (const { method, path: path_ } of route.paths) {
+        if (!path_ || path_.indexOf('*') > -1) continue;
+        const path = fixUrl((mapper.stripPrefix || '') + path_);
+        if (!match(mapper.path, path).matches) continue;
+        for (const METHOD of expandMethod(method)) {
+          if (mapperMethods.indexOf(METHOD) === -1) continue;
+          add(METHOD, path, operation(METHOD, path, mapper, route));
+          if (fixUrl(path) === fixUrl(mapper.path)) documented = true;
+        }
+      }
+    }
+
+    // fallback to mapper only
+    if (!documented && !mapper.ws && mapper.path.indexOf('*') === -1) {
+      for (const METHOD of mapperMethods) {
+        add(METHOD, mapper.path, operation(METHOD, mapper.path, mapper));
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: config.package || 'node-server-template',
+      version: process.env.npm_package_version || '0.0.0',
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  };
+}
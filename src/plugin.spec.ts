@@ -0,0 +1,604 @@
+import type { IMasterConfig } from './interface';
+
+import fastify from 'fastify';
+import httpStatus = require('http-status');
+
+import plugins from './plugin';
+import * as trace from './trace';
+import { connectRedis, sign } from './utils';
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: require('ioredis-mock'),
+}));
+jest.mock('./model', () => ({ __esModule: true, default: [class User {}] }));
+
+const config: IMasterConfig = {
+  port: 8080,
+  auth: {
+    access_token: { secret: 'access', expires_in: '1h' },
+    refresh_token: { secret: 'refresh', expires_in: '1d' },
+  },
+  mapper: [
+    {
+      method: 'POST',
+      path: '/login',
+      queue: 'default',
+      plugins: ['signTokens'],
+    },
+    { path: '/me', queue: 'default', plugins: ['authenticate'] },
+    {
+      path: '/strict',
+      queue: 'default',
+      strict: true,
+      plugins: ['authenticate'],
+    },
+  ],
+};
+
+// gateway with some of the plugins, and handlers in place of workers
+function build(config: IMasterConfig, ...names: string[]) {
+  const app = fastify();
+  for (const plugin of plugins) {
+    if (names.indexOf(plugin.name) > -1) app.register(plugin, config);
+  }
+  app.post('/login', async () => ({
+    statusCode: httpStatus.OK,
+    result: { id: 1, roles: ['user'] },
+  }));
+  app.get('/me', async (req) => ({
+    statusCode: httpStatus.OK,
+    result: req.user,
+  }));
+  app.get('/strict', async (req) => ({
+    statusCode: httpStatus.OK,
+    result: req.user,
+  }));
+  return app;
+}
+
+const app = build(
+  config,
+  'getDeviceToken',
+  'getAccessToken',
+  'getRefreshToken',
+  'mapUrl',
+  'authenticate',
+  'signTokens',
+  'refreshTokens',
+);
+
+function bearer(authorization: string | string[] | number) {
+  return (authorization as string).substring('Bearer '.length);
+}
+
+async function login(device = 'a') {
+  const res = await app.inject({
+    method: 'POST',
+    url: '/login',
+    headers: { 'x-device-token': device },
+  });
+  return {
+    access: bearer(res.headers.authorization),
+    refresh: res.headers['x-refresh-token'] as string,
+  };
+}
+
+function refresh(token: string, device = 'a') {
+  return app.inject({
+    method: 'POST',
+    url: '/auth/refresh',
+    headers: { 'x-refresh-token': token, 'x-device-token': device },
+  });
+}
+
+function me(token: string, device = 'a') {
+  return app.inject({
+    method: 'GET',
+    url: '/me',
+    headers: { authorization: `Bearer ${token}`, 'x-device-token': device },
+  });
+}
+
+beforeEach(() => connectRedis({}).flushall());
+afterEach(() => jest.restoreAllMocks());
+
+test('rotate refresh token', async () => {
+  const tokens = await login();
+  const res = await refresh(tokens.refresh);
+  expect(res.statusCode).toBe(httpStatus.OK);
+  expect(res.json().result).toEqual({ id: 1, roles: ['user'] });
+
+  const refreshed = res.headers['x-refresh-token'] as string;
+  expect(refreshed).not.toBe(tokens.refresh);
+  expect((await refresh(refreshed)).statusCode).toBe(httpStatus.OK);
+  expect((await me(bearer(res.headers.authorization))).json().result).toEqual({
+    id: 1,
+    roles: ['user'],
+  });
+});
+
+test('revoke token family on reuse', async () => {
+  const tokens = await login();
+  const res = await refresh(tokens.refresh);
+  const refreshed = res.headers['x-refresh-token'] as string;
+
+  const reused = await refresh(tokens.refresh);
+  expect(reused.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(reused.json().message).toBe('Refresh Token Reused');
+  expect((await refresh(refreshed)).json().message).toBe(
+    'Refresh Token Revoked',
+  );
+  expect((await me(tokens.access)).json().message).toBe('Access Token Revoked');
+});
+
+test('reject refresh from other device without revoking', async () => {
+  const tokens = await login();
+  const res = await refresh(tokens.refresh, 'b');
+  expect(res.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(res.json().message).toBe('Invalid Device Token');
+
+  expect((await refresh(tokens.refresh)).statusCode).toBe(httpStatus.OK);
+  expect((await me(tokens.access)).statusCode).toBe(httpStatus.OK);
+});
+
+test('revoke tokens of the device on logout', async () => {
+  const tokens = await login();
+  const other = await login('b');
+  const res = await app.inject({
+    method: 'POST',
+    url: '/auth/logout',
+    headers: { 'x-refresh-token': tokens.refresh, 'x-device-token': 'a' },
+  });
+  expect(res.statusCode).toBe(httpStatus.OK);
+
+  expect((await refresh(tokens.refresh)).json().message).toBe(
+    'Refresh Token Revoked',
+  );
+  expect((await me(tokens.access)).statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect((await me(other.access, 'b')).statusCode).toBe(httpStatus.OK);
+});
+
+test('require access token in strict mode', async () => {
+  const res = await app.inject({
+    method: 'GET',
+    url: '/strict',
+    headers: { 'x-device-token': 'a' },
+  });
+  expect(res.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(res.headers['www-authenticate']).toBe('Bearer');
+  expect(res.json().message).toBe('Missing Access Token');
+
+  const anonymous = await app.inject({
+    method: 'GET',
+    url: '/me',
+    headers: { 'x-device-token': 'a' },
+  });
+  expect(anonymous.statusCode).toBe(httpStatus.OK);
+  expect(anonymous.json().result).toBeUndefined();
+});
+
+test('tell expired and invalid access tokens apart', async () => {
+  const expired = await sign({ i: 1 }, 'access', { expiresIn: -1 });
+  const res = await me(expired);
+  expect(res.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(res.headers['www-authenticate']).toBe(
+    'Bearer error="invalid_token", error_description="Access Token Expired"',
+  );
+
+  const invalid = await me(await sign({ i: 1 }, 'other'));
+  expect(invalid.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(invalid.headers['www-authenticate']).toBe(
+    'Bearer error="invalid_token", error_description="Invalid Access Token"',
+  );
+});
+
+test('resolve user from token payload', async () => {
+  const token = await sign({ i: 1, r: ['admin'], p: ['read'] }, 'access');
+  expect((await me(token)).json().result).toEqual({
+    id: 1,
+    roles: ['admin'],
+    permissions: ['read'],
+  });
+});
+
+test('resolve user through dao of auth model', async () => {
+  const findById = jest.fn(async (id: number) => {
+    if (id !== 1) throw Object.assign(new Error(), { statusCode: 404 });
+    return { get: () => ({ id, name: 'user' }) };
+  });
+  const app = build(
+    { ...config, auth: { ...config.auth, model: 'User' } },
+    'getDeviceToken',
+    'getAccessToken',
+    'mapUrl',
+    'authenticate',
+  );
+  app.decorate('daoHelper', { get: () => ({ findById }) });
+  const get = async (id: number) =>
+    app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: {
+        authorization: `Bearer ${await sign({ i: id }, 'access')}`,
+        'x-device-token': 'a',
+      },
+    });
+
+  expect((await get(1)).json().result).toEqual({ id: 1, name: 'user' });
+  const missing = await get(2);
+  expect(missing.statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect(missing.json().message).toBe('User Not Found');
+});
+
+test('limit requests and report rate limit headers', async () => {
+  jest.spyOn(Date, 'now').mockReturnValue(1000 * 1000 * 1000 * 1000);
+  const app = build(
+    {
+      ...config,
+      mapper: [
+        {
+          path: '/me',
+          queue: 'default',
+          limit: { count: 2, window: 60 * 1000 },
+        },
+      ],
+    },
+    'mapUrl',
+    'filterIp',
+    'rateLimit',
+  );
+  const get = () => app.inject({ method: 'GET', url: '/me' });
+
+  const first = await get();
+  expect(first.statusCode).toBe(httpStatus.OK);
+  expect(first.headers['ratelimit-limit']).toBe(2);
+  expect(first.headers['ratelimit-remaining']).toBe(1);
+  expect(first.headers['ratelimit-reset']).toBe(20);
+  expect((await get()).headers['ratelimit-remaining']).toBe(0);
+
+  const rejected = await get();
+  expect(rejected.statusCode).toBe(httpStatus.TOO_MANY_REQUESTS);
+  expect(rejected.headers['ratelimit-remaining']).toBe(0);
+  expect(rejected.headers['retry-after']).toBe(20);
+});
+
+test('limit by user across addresses, or by ip if anonymous', async () => {
+  jest.spyOn(Date, 'now').mockReturnValue(1000 * 1000 * 1000 * 1000);
+  const app = build(
+    {
+      ...config,
+      mapper: [
+        {
+          path: '/me',
+          queue: 'default',
+          plugins: ['authenticate'],
+          limit: { count: 1, window: 60 * 60 * 1000, key: 'user' },
+        },
+      ],
+    },
+    'getDeviceToken',
+    'getAccessToken',
+    'mapUrl',
+    'filterIp',
+    'rateLimit',
+    'authenticate',
+  );
+  const get = async (remoteAddress: string, id?: number) =>
+    app.inject({
+      method: 'GET',
+      url: '/me',
+      remoteAddress,
+      headers: {
+        'x-device-token': 'a',
+        ...(id && {
+          authorization: `Bearer ${await sign({ i: id }, 'access')}`,
+        }),
+      },
+    });
+
+  expect((await get('10.0.0.1', 1)).statusCode).toBe(httpStatus.OK);
+  expect((await get('10.0.0.2', 1)).statusCode).toBe(
+    httpStatus.TOO_MANY_REQUESTS,
+  );
+  expect((await get('10.0.0.2', 2)).statusCode).toBe(httpStatus.OK);
+  expect((await get('10.0.0.2')).statusCode).toBe(httpStatus.OK);
+  expect((await get('10.0.0.2')).statusCode).toBe(httpStatus.TOO_MANY_REQUESTS);
+});
+
+test('count requests with invalid access tokens', async () => {
+  jest.spyOn(Date, 'now').mockReturnValue(1000 * 1000 * 1000 * 1000);
+  const app = build(
+    {
+      ...config,
+      mapper: [
+        {
+          path: '/me',
+          queue: 'default',
+          plugins: ['authenticate'],
+          limit: { count: 2, window: 60 * 60 * 1000, key: 'user' },
+        },
+      ],
+    },
+    'getDeviceToken',
+    'getAccessToken',
+    'mapUrl',
+    'filterIp',
+    'rateLimit',
+    'authenticate',
+  );
+  const get = () =>
+    app.inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: 'Bearer invalid', 'x-device-token': 'a' },
+    });
+
+  expect((await get()).statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect((await get()).statusCode).toBe(httpStatus.UNAUTHORIZED);
+  expect((await get()).statusCode).toBe(httpStatus.TOO_MANY_REQUESTS);
+});
+
+test('filter ip by cidr, where deny list takes precedence', async () => {
+  const app = build(
+    {
+      ...config,
+      ipFilter: { allow: ['10.0.0.0/8', 'fd00::/8'], deny: ['10.0.1.0/24'] },
+      mapper: [
+        { path: '/me', queue: 'default' },
+        {
+          path: '/strict',
+          queue: 'default',
+          ipFilter: { allow: ['10.0.2.1'] },
+        },
+      ],
+    },
+    'mapUrl',
+    'filterIp',
+  );
+  const get = (remoteAddress: string, url = '/me') =>
+    app.inject({ method: 'GET', url, remoteAddress });
+
+  expect((await get('10.0.0.1')).statusCode).toBe(httpStatus.OK);
+  expect((await get('10.0.1.1')).statusCode).toBe(httpStatus.FORBIDDEN);
+  expect((await get('192.168.0.1')).statusCode).toBe(httpStatus.FORBIDDEN);
+  expect((await get('fd00::1')).statusCode).toBe(httpStatus.OK);
+  expect((await get('fe80::1')).statusCode).toBe(httpStatus.FORBIDDEN);
+  expect((await get('10.0.2.1', '/strict')).statusCode).toBe(httpStatus.OK);
+  expect((await get('10.0.0.1', '/strict')).statusCode).toBe(
+    httpStatus.FORBIDDEN,
+  );
+});
+
+test('take client ip from trusted proxies only', async () => {
+  const app = build(
+    {
+      ...config,
+      trustProxy: ['10.0.0.0/8'],
+      ipFilter: { deny: ['192.168.0.1'] },
+      mapper: [{ path: '/me', queue: 'default' }],
+    },
+    'mapUrl',
+    'filterIp',
+  );
+  const get = (remoteAddress: string, headers: Record<string, string>) =>
+    app.inject({ method: 'GET', url: '/me', remoteAddress, headers });
+
+  expect(
+    (await get('10.0.0.1', { 'x-real-ip': '192.168.0.1' })).statusCode,
+  ).toBe(httpStatus.FORBIDDEN);
+  expect(
+    (await get('10.0.0.1', { 'x-client-ip': '192.168.0.1' })).statusCode,
+  ).toBe(httpStatus.FORBIDDEN);
+  expect(
+    (await get('192.168.0.2', { 'x-real-ip': '192.168.0.1' })).statusCode,
+  ).toBe(httpStatus.OK);
+  expect(
+    (await get('192.168.0.1', { 'x-real-ip': '10.0.0.2' })).statusCode,
+  ).toBe(httpStatus.FORBIDDEN);
+});
+
+test('replay response of the same idempotency key', async () => {
+  const app = build(
+    {
+      ...config,
+      mapper: [{ method: 'POST', path: '/jobs', queue: 'default' }],
+    },
+    'getDeviceToken',
+    'mapUrl',
+    'idempotency',
+  );
+  let count = 0;
+  app.post('/jobs', async (req, res) => {
+    res.status(httpStatus.ACCEPTED);
+    res.header('location', `/jobs/default/${++count}`);
+    return { statusCode: httpStatus.ACCEPTED, result: { id: count } };
+  });
+  const post = (payload: object) =>
+    app.inject({
+      method: 'POST',
+      url: '/jobs',
+      payload,
+      headers: { 'x-device-token': 'a', 'idempotency-key': 'a' },
+    });
+
+  const first = await post({ a: 1 });
+  expect(first.statusCode).toBe(httpStatus.ACCEPTED);
+  expect(first.headers['idempotent-replayed']).toBeUndefined();
+
+  const replayed = await post({ a: 1 });
+  expect(replayed.statusCode).toBe(httpStatus.ACCEPTED);
+  expect(replayed.headers['idempotent-replayed']).toBe('true');
+  expect(replayed.headers.location).toBe('/jobs/default/1');
+  expect(replayed.json()).toEqual(first.json());
+  expect(count).toBe(1);
+
+  const reused = await post({ a: 2 });
+  expect(reused.statusCode).toBe(httpStatus.UNPROCESSABLE_ENTITY);
+  expect(reused.json().message).toBe('Idempotency Key Reused');
+});
+
+test('scope idempotency key by device of anonymous requests', async () => {
+  const app = build(
+    {
+      ...config,
+      mapper: [{ method: 'POST', path: '/jobs', queue: 'default' }],
+    },
+    'getDeviceToken',
+    'mapUrl',
+    'idempotency',
+  );
+  let count = 0;
+  app.post('/jobs', async () => ({
+    statusCode: httpStatus.OK,
+    result: { id: ++count },
+  }));
+  const post = (payload: object, device?: string) =>
+    app.inject({
+      method: 'POST',
+      url: '/jobs',
+      payload,
+      headers: {
+        'idempotency-key': 'a',
+        ...(device && { 'x-device-token': device }),
+      },
+    });
+
+  expect((await post({ a: 1 }, 'a')).json().result).toEqual({ id: 1 });
+  const same = await post({ a: 1 }, 'b');
+  expect(same.headers['idempotent-replayed']).toBeUndefined();
+  expect(same.json().result).toEqual({ id: 2 });
+  expect((await post({ a: 2 }, 'c')).statusCode).toBe(httpStatus.OK);
+
+  const missing = await post({ a: 1 });
+  expect(missing.statusCode).toBe(httpStatus.BAD_REQUEST);
+  expect(missing.json().message).toBe('Missing Device Token');
+});
+
+test('reject request of the same idempotency key in progress', async () => {
+  const app = build(
+    {
+      ...config,
+      mapper: [{ method: 'POST', path: '/jobs', queue: 'default' }],
+    },
+    'getDeviceToken',
+    'mapUrl',
+    'idempotency',
+  );
+  let started: () => void;
+  let finish: () => void;
+  const running = new Promise<void>((resolve) => (started = resolve));
+  const finished = new Promise<void>((resolve) => (finish = resolve));
+  app.post('/jobs', async () => {
+    started();
+    await finished;
+    return { statusCode: httpStatus.OK, result: 'done' };
+  });
+  const post = () =>
+    app.inject({
+      method: 'POST',
+      url: '/jobs',
+      headers: { 'x-device-token': 'a', 'idempotency-key': 'a' },
+    });
+
+  const first = post();
+  await running;
+  const conflict = await post();
+  expect(conflict.statusCode).toBe(httpStatus.CONFLICT);
+  expect(conflict.headers['retry-after']).toBe(1);
+
+  finish();
+  expect((await first).statusCode).toBe(httpStatus.OK);
+  expect((await post()).headers['idempotent-replayed']).toBe('true');
+});
+
+test('replay tokens signed or rotated at first', async () => {
+  const app = build(
+    config,
+    'getDeviceToken',
+    'getRefreshToken',
+    'mapUrl',
+    'signTokens',
+    'refreshTokens',
+    'idempotency',
+  );
+  const post = (url: string, key: string, token?: string) =>
+    app.inject({
+      method: 'POST',
+      url,
+      headers: {
+        'x-device-token': 'a',
+        'idempotency-key': key,
+        ...(token && { 'x-refresh-token': token }),
+      },
+    });
+
+  const login = await post('/login', 'a');
+  const replayed = await post('/login', 'a');
+  expect(replayed.headers['idempotent-replayed']).toBe('true');
+  expect(replayed.headers.authorization).toBe(login.headers.authorization);
+  expect(replayed.headers['x-refresh-token']).toBe(
+    login.headers['x-refresh-token'],
+  );
+
+  const token = login.headers['x-refresh-token'] as string;
+  const refreshed = await post('/auth/refresh', 'b', token);
+  expect(refreshed.statusCode).toBe(httpStatus.OK);
+  const retried = await post('/auth/refresh', 'b', token);
+  expect(retried.headers['idempotent-replayed']).toBe('true');
+  expect(retried.headers['x-refresh-token']).toBe(
+    refreshed.headers['x-refresh-token'],
+  );
+
+  const other = await post('/login', 'c');
+  const reused = await post(
+    '/auth/refresh',
+    'b',
+    other.headers['x-refresh-token'] as string,
+  );
+  expect(reused.statusCode).toBe(httpStatus.UNPROCESSABLE_ENTITY);
+});
+
+test('trace requests rejected before mapping, and hijacked', async () => {
+  const endSpan = jest.spyOn(trace, 'endSpan');
+  const app = build(
+    {
+      ...config,
+      mapper: [{ path: '/events', queue: 'default', stream: true }],
+    },
+    'traceRequest',
+    'mapUrl',
+  );
+  app.get('/events', (req, res) => {
+    res.hijack();
+    res.raw.end('streamed');
+  });
+
+  expect(
+    (await app.inject({ method: 'GET', url: '/missing' })).statusCode,
+  ).toBe(httpStatus.NOT_FOUND);
+  expect((await app.inject({ method: 'GET', url: '/events' })).body).toBe(
+    'streamed',
+  );
+  await new Promise((resolve) => setImmediate(resolve));
+  expect(
+    endSpan.mock.calls.map(([span]) => [span.name, span.attributes]),
+  ).toEqual([
+    [
+      'GET /missing',
+      {
+        'http.method': 'GET',
+        'http.target': '/missing',
+        'http.status_code': httpStatus.NOT_FOUND,
+      },
+    ],
+    [
+      'GET /events',
+      {
+        'http.method': 'GET',
+        'http.target': '/events',
+        'http.status_code': httpStatus.OK,
+      },
+    ],
+  ]);
+});
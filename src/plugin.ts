@@ -1,30 +1,267 @@
-import type { FastifyInstance, FastifyPluginCallback } from 'fastify';
+import type {
+  FastifyInstance,
+  FastifyPluginCallback,
+  FastifyReply,
+  FastifyRequest,
+} from 'fastify';
 import type { Sequelize } from 'sequelize-typescript';
 import { DaoHelper } from './dao/base';
-import { IJwtPayload, IMapper, IMasterConfig, IUser } from './interface';
+import models from './model';
+import {
+  IIpFilter,
+  IJwtPayload,
+  ILimitPolicy,
+  IMapper,
+  IMasterConfig,
+  IResult,
+  IUser,
+} from './interface';
+import { httpDuration, httpRequests, rateLimitRejections } from './metrics';
 import { connect } from './sequelize';
+import { onShutdown } from './shutdown';
+import type { ISpan } from './trace';
+import { endSpan, parseTraceparent, startSpan } from './trace';
 import { Nullable } from './utils';
-import { matchUrl, sign, verify } from './utils';
-import { BadRequest, NotFound } from 'http-errors';
+import {
+  checkPermissions,
+  checkRoles,
+  connectRedis,
+  jobOwner,
+  matchPath,
+  matchUrl,
+  sign,
+  verify,
+} from './utils';
+import createError = require('http-errors');
+import {
+  BadRequest,
+  Conflict,
+  Forbidden,
+  NotFound,
+  TooManyRequests,
+  Unauthorized,
+  UnprocessableEntity,
+} from 'http-errors';
+import httpStatus = require('http-status');
+import Redis from 'ioredis';
+import { decode } from 'jsonwebtoken';
+import proxyaddr = require('proxy-addr');
+import { v4 as uuid } from 'uuid';
+import { createHash } from 'crypto';
 import fp from 'fastify-plugin';
 import swig = require('swig-templates');
 import { resolve } from 'path';
 
 const deviceTokenKey = 'x-device-token';
+const apiKeyKey = 'x-api-key';
 const refreshTokenKey = 'x-refresh-token';
+const idempotencyKey = 'idempotency-key';
+const replayedKey = 'idempotent-replayed';
+
+// routes served by the gateway itself
+const builtinPaths = [
+  '/health',
+  '/health/live',
+  '/health/ready',
+  '/openapi.json',
+  '/jobs/:queue/:id',
+  '/auth/refresh',
+  '/auth/logout',
+];
 
 const template = swig.compileFile(resolve(__dirname, 'error.html'));
 
 let sequelize: Nullable<Sequelize>;
 
+// reusing a rotated refresh token revokes the whole family,
+// but a token of another device is only rejected
+const rotateScript = `
+  if redis.call('EXISTS', KEYS[1]) == 0 then return -1 end
+  local family = redis.call('HMGET', KEYS[1], 'jti', 'device')
+  if family[1] ~= ARGV[1] then
+    redis.call('DEL', KEYS[1])
+    return 0
+  end
+  if family[2] ~= ARGV[2] then return -2 end
+  redis.call('HSET', KEYS[1], 'jti', ARGV[3])
+  return 1
+`;
+
+function toPayload({ id, roles, permissions }: IUser): IJwtPayload {
+  return { i: id, r: roles, p: permissions };
+}
+
+function toUser({ i, r, p }: IJwtPayload): IUser {
+  return { id: i, roles: r, permissions: p };
+}
+
+// 401 with bearer challenge, see RFC 6750
+function unauthorized(message: string, error?: string) {
+  const challenge = error
+    ? `Bearer error="${error}", error_description="${message}"`
+    : 'Bearer';
+  return createError(httpStatus.UNAUTHORIZED, message, {
+    headers: { 'www-authenticate': challenge },
+  });
+}
+
+async function resolveUser(
+  fastify: FastifyInstance,
+  config: IMasterConfig,
+  payload: IJwtPayload,
+): Promise<IUser> {
+  if (!config.auth.model) return toUser(payload);
+
+  const model = models.find((m) => m.name === config.auth.model);
+  if (!model) throw new Error(`Model ${config.auth.model} Not Found`);
+  try {
+    const user = await fastify.daoHelper.get(model).findById(payload.i);
+    return user.get({ plain: true }) as IUser;
+  } catch (e) {
+    if (e.statusCode !== httpStatus.NOT_FOUND) throw e;
+    throw unauthorized('User Not Found', 'invalid_token');
+  }
+}
+
+// whether the ip is allowed, where deny list takes precedence
+function compileFilter({ allow = [], deny = [] }: IIpFilter) {
+  const allow_ = proxyaddr.compile(allow);
+  const deny_ = proxyaddr.compile(deny);
+  return (ip: string) => !deny_(ip, 0) && (!allow.length || allow_(ip, 0));
+}
+
+function limitKey(req: FastifyRequest, policy: ILimitPolicy, index: number) {
+  let identity: string;
+  switch (policy.key) {
+    case 'user':
+      identity = req.user && `user:${req.user.id}`;
+      break;
+    case 'apiKey':
+      identity = req.headers[apiKeyKey] && `apiKey:${req.headers[apiKeyKey]}`;
+      break;
+    case 'device':
+      identity = req.extra.device && `device:${req.extra.device}`;
+      break;
+  }
+  identity = identity || `ip:${req.clientIp}`;
+
+  // mapper policies are counted separately from global policy
+  let scope = req.mapper?.limit
+    ? `${req.mapper.method || 'ALL'}:${req.mapper.path}:${index}`
+    : 'global';
+  if (policy.perEndpoint) {
+    scope += `:${new URL(req.url, 'http://localhost').pathname}`;
+  }
+
+  const slot = Math.floor(Date.now() / policy.window);
+  return `limit:${scope}:${identity}:${slot}`;
+}
+
+interface IIdempotentRecord {
+  fingerprint: string;
+  statusCode?: number;
+  headers?: Record<string, string | string[] | number>;
+  payload?: string;
+}
+
+// headers of the connection or of the current request, not replayed
+const unreplayedHeaders = [
+  'connection',
+  'content-length',
+  'date',
+  'keep-alive',
+  'transfer-encoding',
+  'ratelimit-limit',
+  'ratelimit-remaining',
+  'ratelimit-reset',
+  'retry-after',
+];
+
+// a retry must repeat the same request, with the same refresh token if any
+function fingerprint(req: FastifyRequest) {
+  return createHash('sha1')
+    .update(JSON.stringify([req.method, req.url, req.body, req.extra?.refresh]))
+    .digest('hex');
+}
+
+function familyKey(family: string) {
+  return `refresh:${family}`;
+}
+
+// remove registered claims, keep the user payload
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function getPayload({ iat, exp, nbf, jti, fid, ...payload }: IJwtPayload) {
+  return payload;
+}
+
+/**
+ * sign access token and refresh token of a token family,
+ * where only the latest refresh token of the family is valid
+ */
+async function issueTokens(
+  res: FastifyReply,
+  config: IMasterConfig,
+  redis: Redis,
+  payload: object,
+  device: string,
+  family = uuid(),
+  jti = uuid(),
+) {
+  const access = await sign(
+    { ...payload, fid: family },
+    config.auth.access_token.secret,
+    {
+      expiresIn: config.auth.access_token.expires_in,
+      jwtid: uuid(),
+    },
+  );
+  res.header('authorization', `Bearer ${access}`);
+
+  const refresh = await sign(
+    { ...payload, fid: family },
+    config.auth.refresh_token.secret,
+    {
+      expiresIn: config.auth.refresh_token.expires_in,
+      jwtid: jti,
+    },
+  );
+  res.header(refreshTokenKey, refresh);
+
+  const { exp } = decode(refresh) as IJwtPayload;
+  const multi = redis.multi().hset(familyKey(family), { jti, device });
+  if (exp) {
+    multi.expire(
+      familyKey(family),
+      Math.max(exp - Math.floor(Date.now() / 1000), 1),
+    );
+  }
+  await multi.exec();
+}
+
+async function revokeFamily(redis: Redis, token: string, secret: string) {
+  try {
+    const { fid } = (await verify(token, secret, {
+      ignoreExpiration: true,
+    })) as IJwtPayload;
+    if (fid) await redis.del(familyKey(fid));
+  } catch (e) {
+    // invalid token has nothing to revoke
+  }
+}
+
 declare module 'fastify' {
   interface FastifyInstance {
+    sequelize: Sequelize;
     daoHelper: DaoHelper;
+    authenticate: (req: FastifyRequest, strict?: boolean) => Promise<void>;
   }
   interface FastifyRequest {
     daoHelper: DaoHelper;
     start: number;
     extra: any;
+    clientIp: string;
+    idempotency?: { key: string; fingerprint: string };
+    span: ISpan;
     jwtPayload?: IJwtPayload;
     user?: IUser;
     mapper?: IMapper;
@@ -38,8 +275,12 @@ export default [
     config: IMasterConfig,
     next: (err?: Error) => void,
   ) {
-    if (!sequelize) sequelize = await connect(config, true);
+    if (!sequelize) {
+      sequelize = await connect(config, true);
+      onShutdown('close', () => sequelize.close());
+    }
     const daoHelper = new DaoHelper(sequelize);
+    fastify.decorate('sequelize', sequelize);
     fastify.decorate('daoHelper', daoHelper);
     fastify.decorateRequest('daoHelper', null);
     fastify.addHook('onRequest', (req, _, next) => {
@@ -49,6 +290,48 @@ export default [
     next();
   }),
 
+  // continue trace of traceparent, or start a new one, before any rejection
+  fp(function traceRequest(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    const finish = (req: FastifyRequest, statusCode: number) => {
+      if (req.span.end) return;
+      const url = new URL(req.url, 'http://localhost');
+      req.span.name = `${req.method} ${req.mapper?.path || url.pathname}`;
+      req.span.attributes['http.status_code'] = statusCode;
+      endSpan(
+        req.span,
+        statusCode >= httpStatus.INTERNAL_SERVER_ERROR
+          ? (httpStatus[`${statusCode}_NAME`] as string)
+          : undefined,
+      );
+    };
+
+    fastify.addHook('onRequest', (req, res, next) => {
+      const url = new URL(req.url, 'http://localhost');
+      req.span = startSpan(
+        `${req.method} ${url.pathname}`,
+        parseTraceparent(req.headers.traceparent as string),
+        'server',
+        { 'http.method': req.method, 'http.target': url.pathname },
+      );
+      req.log = req.log.child({
+        traceId: req.span.traceId,
+        spanId: req.span.spanId,
+      });
+      // hijacked replies, e.g. event streams, skip onResponse
+      res.raw.once('close', () => finish(req, res.raw.statusCode));
+      next();
+    });
+    fastify.addHook('onResponse', (req, res, next) => {
+      finish(req, res.statusCode);
+      next();
+    });
+    next();
+  }),
+
   // get device token from x-device-token
   fp(function getDeviceToken(
     fastify: FastifyInstance,
@@ -100,29 +383,164 @@ export default [
     fastify.addHook('onRequest', (req, res, next) => {
       const url = new URL(req.url, `http://localhost:${config.port}`);
       const mapper = (req.mapper = matchUrl(req.method, url, ...config.mapper));
-      if (!mapper && url.pathname !== '/health') throw new NotFound();
+      if (!mapper && !builtinPaths.find((p) => matchPath(p, url.pathname))) {
+        throw new NotFound();
+      }
       next();
     });
     next();
   }),
 
-  // authenticate the access token
-  fp(function authenticate(
+  // get client ip, and check against allow and deny lists
+  fp(function filterIp(
     fastify: FastifyInstance,
     config: IMasterConfig,
     next: (err?: Error) => void,
   ) {
-    fastify.addHook('onRequest', async (req) => {
+    const trust = proxyaddr.compile(config.trustProxy || []);
+    const filter = compileFilter(config.ipFilter || {});
+    const filters = new Map<IMapper, (ip: string) => boolean>();
+    for (const mapper of config.mapper) {
+      if (mapper.ipFilter) filters.set(mapper, compileFilter(mapper.ipFilter));
+    }
+
+    fastify.addHook('onRequest', (req, _, next) => {
+      // forwarding headers from trusted proxies only
+      const realIp =
+        (req.headers['x-real-ip'] as string) || // nginx
+        (req.headers['x-client-ip'] as string); // apache
+      req.clientIp =
+        realIp && trust(req.socket.remoteAddress, 0) ? realIp : req.ip;
+
+      const mapperFilter = req.mapper && filters.get(req.mapper);
       if (
-        req.extra.access &&
-        req.mapper.plugins?.find((p) => p === 'authenticate')
+        !filter(req.clientIp) ||
+        (mapperFilter && !mapperFilter(req.clientIp))
       ) {
-        if (!req.extra.device) throw new BadRequest('Missing Device Token');
-        req.jwtPayload = (await verify(
-          req.extra.access,
-          config.auth.access_token.secret,
-        )) as IJwtPayload;
+        throw new Forbidden('IP Address Not Allowed');
       }
+      next();
+    });
+    next();
+  }),
+
+  // rate limit by mapper policies, or global policy
+  fp(function rateLimit(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    fastify.addHook('onRequest', async (req, res) => {
+      const limit = req.mapper?.limit || config.limit;
+      if (!limit) return;
+      const policies = Array.isArray(limit) ? limit : [limit];
+
+      // limited before authentication, so requests with invalid tokens count
+      // as well, by ip if the user is not resolved
+      if (
+        policies.find((p) => p.key === 'user') &&
+        req.mapper?.plugins?.find((p) => p === 'authenticate')
+      ) {
+        await fastify.authenticate(req, false).catch(() => undefined);
+      }
+
+      let results: Array<{ count: number; remaining: number; reset: number }>;
+      try {
+        const redis = connectRedis(config.redis);
+        results = await Promise.all(
+          policies.map(async (policy, i) => {
+            const key = limitKey(req, policy, i);
+            const [[, current]] = await redis
+              .multi()
+              .incr(key)
+              .pexpire(key, policy.window)
+              .exec();
+            const now = Date.now();
+            return {
+              count: policy.count,
+              remaining: policy.count - (current as number),
+              reset: Math.ceil((policy.window - (now % policy.window)) / 1000),
+            };
+          }),
+        );
+      } catch (e) {
+        // skip on redis error
+        req.log.error(e, e.message);
+        return;
+      }
+
+      // report the most restrictive policy
+      const result = results.reduce((r, i) =>
+        i.remaining < r.remaining ? i : r,
+      );
+      res.header('ratelimit-limit', result.count);
+      res.header('ratelimit-remaining', Math.max(result.remaining, 0));
+      res.header('ratelimit-reset', result.reset);
+      if (result.remaining < 0) {
+        res.header('retry-after', result.reset);
+        rateLimitRejections.inc({ mapper: req.mapper?.path || 'global' });
+        throw new TooManyRequests();
+      }
+    });
+    next();
+  }),
+
+  // authenticate the access token
+  fp(function authenticate(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    fastify.decorate(
+      'authenticate',
+      async (req: FastifyRequest, strict = config.auth.strict) => {
+        if (!req.extra.access) {
+          if (strict) throw unauthorized('Missing Access Token');
+          return;
+        }
+        if (!req.extra.device) throw new BadRequest('Missing Device Token');
+
+        try {
+          req.jwtPayload = (await verify(
+            req.extra.access,
+            config.auth.access_token.secret,
+          )) as IJwtPayload;
+        } catch (e) {
+          throw e.name === 'TokenExpiredError'
+            ? unauthorized('Access Token Expired', 'invalid_token')
+            : unauthorized('Invalid Access Token', 'invalid_token');
+        }
+
+        // token family revoked by logout or refresh token reuse
+        const { fid } = req.jwtPayload;
+        if (fid && !(await connectRedis(config.redis).exists(familyKey(fid)))) {
+          throw unauthorized('Access Token Revoked', 'invalid_token');
+        }
+
+        req.user = await resolveUser(fastify, config, req.jwtPayload);
+      },
+    );
+    fastify.addHook('onRequest', async (req) => {
+      if (!req.mapper?.plugins?.find((p) => p === 'authenticate')) return;
+      if (req.user) return; // resolved by rate limit
+      await fastify.authenticate(req, req.mapper.strict ?? config.auth.strict);
+    });
+    next();
+  }),
+
+  // check roles and permissions required by mapper
+  fp(function authorize(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    fastify.addHook('onRequest', async (req) => {
+      const { roles = [], permissions = [] } = req.mapper || {};
+      if (!roles.length && !permissions.length) return;
+      if (!req.user) throw unauthorized('Missing Access Token');
+      const reason =
+        checkRoles(req.user, roles) || checkPermissions(req.user, permissions);
+      if (reason) throw new Forbidden(reason);
     });
     next();
   }),
@@ -135,24 +553,18 @@ export default [
   ) {
     fastify.addHook<string>('onSend', async (req, res, result) => {
       const result_ = JSON.parse(result);
-      if (req.mapper?.plugins?.find((p) => p === 'signTokens')) {
-        const access = await sign(
-          result_.result,
-          config.auth.access_token.secret,
-          {
-            expiresIn: config.auth.access_token.expires_in,
-          },
-        );
-        res.header('authorization', `Bearer ${access}`);
-
-        const refresh = await sign(
-          result_.result,
-          config.auth.refresh_token.secret,
-          {
-            expiresIn: config.auth.refresh_token.expires_in,
-          },
+      // replayed with the tokens signed at first
+      if (
+        req.mapper?.plugins?.find((p) => p === 'signTokens') &&
+        !res.getHeader(replayedKey)
+      ) {
+        await issueTokens(
+          res,
+          config,
+          connectRedis(config.redis),
+          toPayload(result_.result),
+          req.extra.device,
         );
-        res.header(refreshTokenKey, refresh);
         result = JSON.stringify(result_);
       }
       return result;
@@ -160,6 +572,182 @@ export default [
     next();
   }),
 
+  // rotate refresh token, and revoke tokens on logout
+  fp(function refreshTokens(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    const secret = config.auth.refresh_token.secret;
+
+    fastify.post('/auth/refresh', async (req, res): Promise<IResult> => {
+      if (!req.extra.refresh) throw new Unauthorized('Missing Refresh Token');
+      if (!req.extra.device) throw new BadRequest('Missing Device Token');
+
+      let payload: IJwtPayload;
+      try {
+        payload = (await verify(req.extra.refresh, secret)) as IJwtPayload;
+      } catch (e) {
+        throw e.name === 'TokenExpiredError'
+          ? new Unauthorized('Refresh Token Expired')
+          : new Unauthorized('Invalid Refresh Token');
+      }
+      if (!payload.fid) throw new Unauthorized('Invalid Refresh Token');
+
+      // rotate atomically, so a token can be used only once
+      const redis = connectRedis(config.redis);
+      const device = req.extra.device as string;
+      const jti = uuid();
+      const rotated = await redis.eval(
+        rotateScript,
+        1,
+        familyKey(payload.fid),
+        payload.jti,
+        device,
+        jti,
+      );
+      if (rotated === -1) throw new Unauthorized('Refresh Token Revoked');
+      if (rotated === 0) throw new Unauthorized('Refresh Token Reused');
+      if (rotated === -2) throw new Unauthorized('Invalid Device Token');
+
+      await issueTokens(
+        res,
+        config,
+        redis,
+        getPayload(payload),
+        device,
+        payload.fid,
+        jti,
+      );
+      return { statusCode: httpStatus.OK, result: toUser(payload) };
+    });
+
+    // revoke the token family of current device
+    fastify.post('/auth/logout', async (req): Promise<IResult> => {
+      const redis = connectRedis(config.redis);
+      if (req.extra.refresh) {
+        await revokeFamily(redis, req.extra.refresh, secret);
+      }
+      if (req.extra.access) {
+        await revokeFamily(
+          redis,
+          req.extra.access,
+          config.auth.access_token.secret,
+        );
+      }
+      return { statusCode: httpStatus.OK };
+    });
+    next();
+  }),
+
+  // replay the first response of a request with the same idempotency key,
+  // registered after the token plugins to record the tokens they send
+  fp(function idempotency(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    const ttl = config.idempotency?.ttl || 24 * 60 * 60;
+    const lock = config.idempotency?.lock || 5 * 60;
+
+    fastify.addHook('preHandler', async (req, res) => {
+      const value = req.headers[idempotencyKey] as string;
+      // unsafe methods of mapped routes, and of token routes
+      if (
+        !value ||
+        ['POST', 'PUT', 'PATCH', 'DELETE'].indexOf(req.method) === -1
+      ) {
+        return;
+      }
+      if (value.length > 255) throw new BadRequest('Invalid Idempotency Key');
+
+      // per user, or device of anonymous requests, as owners of jobs
+      const owner = jobOwner(req);
+      if (!owner) throw new BadRequest('Missing Device Token');
+      const key = `idempotency:${owner}:${value}`;
+      const record: IIdempotentRecord = { fingerprint: fingerprint(req) };
+      const redis = connectRedis(config.redis);
+      const acquired = await redis.set(
+        key,
+        JSON.stringify(record),
+        'EX',
+        lock,
+        'NX',
+      );
+      if (acquired === 'OK') {
+        req.idempotency = { key, fingerprint: record.fingerprint };
+        return;
+      }
+
+      const stored = await redis.get(key);
+      if (!stored) throw new Conflict('Request In Progress'); // just released
+      const {
+        fingerprint: fingerprint_,
+        statusCode,
+        headers,
+        payload,
+      } = JSON.parse(stored) as IIdempotentRecord;
+      if (fingerprint_ !== record.fingerprint) {
+        throw new UnprocessableEntity('Idempotency Key Reused');
+      }
+      if (!statusCode) {
+        res.header('retry-after', 1);
+        throw new Conflict('Request In Progress');
+      }
+      res.status(statusCode);
+      res.headers(headers);
+      res.header(replayedKey, 'true');
+      res.send(payload);
+      return res;
+    });
+
+    fastify.addHook<string>('onSend', async (req, res, payload) => {
+      if (!req.idempotency || res.getHeader(replayedKey)) return payload;
+      const { key, fingerprint } = req.idempotency;
+      const redis = connectRedis(config.redis);
+      try {
+        if (res.statusCode === httpStatus.GATEWAY_TIMEOUT) {
+          // job may still be running, keep locked until it expires
+        } else if (res.statusCode >= httpStatus.INTERNAL_SERVER_ERROR) {
+          await redis.del(key); // allow retry
+        } else {
+          const headers = { ...res.getHeaders() };
+          for (const header of unreplayedHeaders) delete headers[header];
+          const record: IIdempotentRecord = {
+            fingerprint,
+            statusCode: res.statusCode,
+            headers,
+            payload,
+          };
+          await redis.set(key, JSON.stringify(record), 'EX', ttl);
+        }
+      } catch (e) {
+        req.log.error(e, e.message);
+      }
+      return payload;
+    });
+    next();
+  }),
+
+  // request counts and latency
+  fp(function collectMetrics(
+    fastify: FastifyInstance,
+    config: IMasterConfig,
+    next: (err?: Error) => void,
+  ) {
+    fastify.addHook('onResponse', (req, res, next) => {
+      const labels = {
+        mapper: req.mapper?.path || req.routerPath || 'none',
+        method: req.method,
+        status: res.statusCode,
+      };
+      httpRequests.inc(labels);
+      httpDuration.observe(labels, res.getResponseTime() / 1000);
+      next();
+    });
+    next();
+  }),
+
   // mark elapsed time
   fp(function markElapsed(
     fastify: FastifyInstance,
@@ -171,6 +759,8 @@ export default [
       next();
     });
     fastify.addHook<string>('onSend', (req, res, result, next) => {
+      // skip documents served as is
+      if (req.context.config['raw']) return next();
       const result_ = JSON.parse(result);
       result_.elapsed = Date.now() - req.start;
       next(null, JSON.stringify(result_));
@@ -0,0 +1,86 @@
+import type { ErrorObject } from 'ajv';
+import type { IFieldError } from './interface';
+
+import Ajv from 'ajv';
+
+export type JSONSchema = {
+  readonly type?:
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'null'
+    | 'array'
+    | 'object';
+  readonly enum?: readonly any[];
+  readonly const?: any;
+  readonly items?: JSONSchema;
+  readonly properties?: { readonly [key: string]: JSONSchema };
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean | JSONSchema;
+  readonly [keyword: string]: any;
+};
+
+type ObjectFromSchema<P, R> = {
+  -readonly [K in keyof P & R]: FromSchema<P[K]>;
+} & {
+  -readonly [K in Exclude<keyof P, R>]?: FromSchema<P[K]>;
+};
+
+/**
+ * infer typescript type from a JSON schema declared with `as const`
+ */
+export type FromSchema<S> = S extends { readonly enum: readonly (infer E)[] }
+  ? E
+  : S extends { readonly const: infer C }
+  ? C
+  : S extends { readonly type: 'string' }
+  ? string
+  : S extends { readonly type: 'number' | 'integer' }
+  ? number
+  : S extends { readonly type: 'boolean' }
+  ? boolean
+  : S extends { readonly type: 'null' }
+  ? null
+  : S extends { readonly type: 'array'; readonly items: infer I }
+  ? FromSchema<I>[]
+  : S extends { readonly type: 'array' }
+  ? unknown[]
+  : S extends { readonly type: 'object'; readonly properties: infer P }
+  ? ObjectFromSchema<
+      P,
+      S extends { readonly required: readonly (infer R)[] } ? R : never
+    >
+  : S extends { readonly type: 'object' }
+  ? Record<string, unknown>
+  : unknown;
+
+// strings from query and path need coercion, json body does not
+const ajv = new Ajv({ allErrors: true, useDefaults: true });
+const coerceAjv = new Ajv({
+  allErrors: true,
+  useDefaults: true,
+  coerceTypes: true,
+});
+
+function toFieldError(in_: IFieldError['in'], error: ErrorObject) {
+  let field = error.instancePath.substring(1).replace(/\//g, '.');
+  if (error.keyword === 'required') {
+    field = field
+      ? `${field}.${error.params.missingProperty}`
+      : error.params.missingProperty;
+  }
+  return { in: in_, field, message: error.message } as IFieldError;
+}
+
+/**
+ * compile a JSON schema into a validator
+ * @param in_ where the data comes from
+ * @param schema JSONSchema
+ * @returns function returning field errors, coercing the data in place
+ */
+export function compile(in_: IFieldError['in'], schema: JSONSchema) {
+  const validate = (in_ === 'body' ? ajv : coerceAjv).compile(schema);
+  return (data: any): IFieldError[] =>
+    validate(data) ? [] : validate.errors.map((e) => toFieldError(in_, e));
+}
@@ -3,6 +3,7 @@ import { Sequelize } from 'sequelize-typescript';
 
 import { IBaseConfig } from './interface';
 import logger from './logger';
+import { queryDuration } from './metrics';
 import { logSection } from './utils';
 
 async function checkDatabase(sequelize: Sequelize, database: string) {
@@ -34,7 +35,12 @@ export async function connect(config: IBaseConfig, check = false) {
     models: await import(resolve(__dirname, 'model', 'index')).then(
       (m) => m.default,
     ),
-    logging: (sql, timing) => sequelizeLogger.info({ sql, elapsed: timing }),
+    benchmark: true,
+    logging: (sql, timing) => {
+      sequelizeLogger.info({ sql, elapsed: timing });
+      const type = /^Executed \([^)]*\): (\w+)/.exec(sql)?.[1] || 'OTHER';
+      queryDuration.observe({ type: type.toUpperCase() }, timing / 1000);
+    },
   });
   if (sync) {
     if (!check || (await !checkDatabase(sequelize, database))) {
@@ -0,0 +1,15 @@
+import { isShuttingDown, onShutdown, shutdown } from './shutdown';
+
+test('run stages in order, moving on at the deadline', async () => {
+  const stages: string[] = [];
+  onShutdown('close', () => stages.push('close'));
+  onShutdown('drain', () => new Promise(() => stages.push('drain'))); // never finishes
+  onShutdown('stop', async () => stages.push('stop'));
+
+  expect(isShuttingDown()).toBe(false);
+  const start = Date.now();
+  await shutdown(50);
+  expect(isShuttingDown()).toBe(true);
+  expect(stages).toEqual(['stop', 'drain', 'close']);
+  expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+});
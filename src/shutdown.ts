@@ -0,0 +1,120 @@
+import type { Worker } from 'cluster';
+import type { Logger } from 'pino';
+import type { Nullable } from './utils';
+
+import * as _cluster from 'cluster';
+
+const cluster = _cluster as unknown as _cluster.Cluster;
+
+// stop accepting work, then wait for work in flight, then close connections
+export type ShutdownStage = 'stop' | 'drain' | 'close';
+
+// remaining is the time in milliseconds before the deadline
+export type Cleanup = (remaining: number) => unknown;
+
+const order: ShutdownStage[] = ['stop', 'drain', 'close'];
+
+const cleanups: Record<ShutdownStage, Cleanup[]> = {
+  stop: [],
+  drain: [],
+  close: [],
+};
+
+let shutting: Nullable<Promise<void>>;
+
+/**
+ * register cleanup to run in a stage of shutdown
+ * @param stage ShutdownStage
+ * @param cleanup Cleanup
+ */
+export function onShutdown(stage: ShutdownStage, cleanup: Cleanup) {
+  cleanups[stage].push(cleanup);
+}
+
+export function isShuttingDown() {
+  return !!shutting;
+}
+
+/**
+ * run cleanups stage by stage, moving on to the next stage at the deadline
+ * @param timeout number in milliseconds
+ */
+export function shutdown(timeout: number) {
+  if (!shutting) {
+    const deadline = Date.now() + timeout;
+    shutting = order.reduce(
+      (promise, stage) =>
+        promise.then(() => {
+          let timer: NodeJS.Timeout;
+          return Promise.race([
+            Promise.allSettled(
+              cleanups[stage].map(async (cleanup) =>
+                cleanup(Math.max(deadline - Date.now(), 0)),
+              ),
+            ),
+            new Promise<void>((resolve) => {
+              timer = setTimeout(resolve, Math.max(deadline - Date.now(), 0));
+            }),
+          ]).then(() => clearTimeout(timer));
+        }),
+      Promise.resolve(),
+    );
+  }
+  return shutting;
+}
+
+/**
+ * ask a forked process to shut down, and kill it at the deadline
+ * @param worker Worker
+ * @param timeout number in milliseconds
+ */
+export function stopFork(worker: Worker, timeout: number) {
+  return new Promise<void>((resolve) => {
+    if (worker.isDead()) return resolve();
+    const timer = setTimeout(() => worker.process.kill('SIGKILL'), timeout);
+    worker.once('exit', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+    if (worker.isConnected()) worker.send('shutdown');
+  });
+}
+
+function stopForks(timeout: number) {
+  return Promise.all(
+    Object.values(cluster.workers || {}).map((worker) =>
+      stopFork(worker, timeout),
+    ),
+  );
+}
+
+/**
+ * shut down on SIGTERM or SIGINT, or when asked by the primary process,
+ * and exit at the deadline anyway
+ * @param timeout number in milliseconds
+ * @param logger Logger
+ */
+export function handleShutdown(timeout: number, logger: Logger) {
+  const handler = (reason: string) => {
+    if (isShuttingDown()) return;
+    logger.info(`Shutting down on ${reason} ...`);
+    const timer = setTimeout(() => {
+      logger.warn(`Shutdown exceeds ${timeout}ms`);
+      process.exit(1);
+    }, timeout + 1000);
+    shutdown(timeout).then(() => {
+      clearTimeout(timer);
+      logger.info('Shut down');
+      process.exit(0);
+    });
+  };
+
+  if (cluster.isPrimary) onShutdown('stop', stopForks);
+  process.on('SIGTERM', () => handler('SIGTERM'));
+  process.on('SIGINT', () => handler('SIGINT'));
+  if (cluster.isWorker) {
+    process.on('message', (message) => {
+      if (message === 'shutdown') handler('request of primary');
+    });
+  }
+}
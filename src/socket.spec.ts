@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+
+import { SocketHub, Sockets } from './socket';
+
+// publish through redis to the subscriber of a gateway
+function connectHub() {
+  const subscriber = Object.assign(new EventEmitter(), {
+    subscribe: jest.fn(),
+  });
+  const redis = {
+    publish: async (channel: string, message: string) =>
+      subscriber.emit('message', channel, message),
+  };
+  return {
+    hub: new SocketHub(subscriber as any),
+    sockets: new Sockets(redis as any),
+  };
+}
+
+function socket() {
+  return Object.assign(new EventEmitter(), {
+    OPEN: 1,
+    readyState: 1,
+    send: jest.fn(),
+  });
+}
+
+test('push messages to a connection, a user or a room', async () => {
+  const { hub, sockets } = connectHub();
+  const a = socket();
+  const b = socket();
+  const id = hub.add(a as any, { id: 1 });
+  hub.add(b as any, { id: 2 });
+
+  await sockets.send({ connection: id }, 'connection');
+  await sockets.send({ user: 2 }, 'user');
+  await sockets.join({ user: 1 }, 'room');
+  await sockets.send({ room: 'room' }, 'room');
+  await sockets.leave({ connection: id }, 'room');
+  await sockets.send({ room: 'room' }, 'left');
+
+  expect(a.send.mock.calls).toEqual([['"connection"'], ['"room"']]);
+  expect(b.send.mock.calls).toEqual([['"user"']]);
+});
+
+test('skip closed connections', async () => {
+  const { hub, sockets } = connectHub();
+  const a = socket();
+  const b = socket();
+  hub.add(a as any, { id: 1 });
+  hub.add(b as any, { id: 1 });
+  a.emit('close');
+  b.readyState = 3; // CLOSED
+
+  await sockets.send({ user: 1 }, 'user');
+  expect(a.send).not.toBeCalled();
+  expect(b.send).not.toBeCalled();
+});
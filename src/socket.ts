@@ -0,0 +1,109 @@
+import type { IResponse, IUser } from './interface';
+import type { WebSocket } from 'ws';
+
+import Redis from 'ioredis';
+import { v4 as uuid } from 'uuid';
+
+const channel = 'websocket';
+
+export interface ISocketTarget {
+  connection?: string;
+  user?: number;
+  room?: string;
+}
+
+interface ISocketMessage {
+  type: 'send' | 'join' | 'leave';
+  target: ISocketTarget;
+  room?: string;
+  data?: any;
+}
+
+interface IConnection {
+  socket: WebSocket;
+  user?: IUser;
+  rooms: Set<string>;
+}
+
+/**
+ * websocket connections held by this gateway,
+ * receiving messages published by workers through redis
+ */
+export class SocketHub {
+  private readonly connections: Record<string, IConnection> = {};
+
+  constructor(private readonly subscriber: Redis) {
+    subscriber.subscribe(channel);
+    subscriber.on('message', (channel_, message) => {
+      if (channel_ === channel) this.dispatch(JSON.parse(message));
+    });
+  }
+
+  add(socket: WebSocket, user?: IUser) {
+    const id = uuid();
+    this.connections[id] = { socket, user, rooms: new Set() };
+    socket.on('close', () => delete this.connections[id]);
+    return id;
+  }
+
+  send(id: string, data: IResponse | any) {
+    const connection = this.connections[id];
+    if (connection && connection.socket.readyState === connection.socket.OPEN) {
+      connection.socket.send(JSON.stringify(data));
+    }
+  }
+
+  close() {
+    return this.subscriber.quit();
+  }
+
+  private find({ connection, user, room }: ISocketTarget) {
+    return Object.keys(this.connections).filter((id) => {
+      const connection_ = this.connections[id];
+      return (
+        (connection === undefined || connection === id) &&
+        (user === undefined || connection_.user?.id === user) &&
+        (room === undefined || connection_.rooms.has(room))
+      );
+    });
+  }
+
+  private dispatch({ type, target, room, data }: ISocketMessage) {
+    for (const id of this.find(target)) {
+      switch (type) {
+        case 'send':
+          this.send(id, data);
+          break;
+        case 'join':
+          this.connections[id].rooms.add(room);
+          break;
+        case 'leave':
+          this.connections[id].rooms.delete(room);
+          break;
+      }
+    }
+  }
+}
+
+/**
+ * push messages to websocket connections from workers
+ */
+export class Sockets {
+  constructor(private readonly redis: Redis) {}
+
+  async send(target: ISocketTarget, data: any) {
+    await this.publish({ type: 'send', target, data });
+  }
+
+  async join(target: ISocketTarget, room: string) {
+    await this.publish({ type: 'join', target, room });
+  }
+
+  async leave(target: ISocketTarget, room: string) {
+    await this.publish({ type: 'leave', target, room });
+  }
+
+  private async publish(message: ISocketMessage) {
+    await this.redis.publish(channel, JSON.stringify(message));
+  }
+}
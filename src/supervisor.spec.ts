@@ -0,0 +1,137 @@
+import * as _cluster from 'cluster';
+import { EventEmitter } from 'events';
+
+import { supervise } from './supervisor';
+
+// forks of the fake cluster, exiting when killed or asked to shut down
+jest.mock('cluster', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  const cluster = {
+    isPrimary: true,
+    isWorker: false,
+    workers: {},
+    fork: jest.fn(() => {
+      let dead = false;
+      const worker = Object.assign(new EventEmitter(), {
+        process: {
+          pid: cluster.fork.mock.calls.length,
+          kill: (signal: string) => worker.exit(null, signal),
+        },
+        isConnected: () => !dead,
+        isDead: () => dead,
+        send: (message: unknown) => message === 'shutdown' && worker.exit(0),
+        exit: (code: number, signal?: string) => {
+          dead = true;
+          worker.emit('exit', code, signal);
+        },
+      });
+      return worker;
+    }),
+  };
+  return cluster;
+});
+
+type FakeWorker = EventEmitter & {
+  process: { pid: number };
+  isDead: () => boolean;
+  exit: (code: number, signal?: string) => void;
+};
+
+const cluster = _cluster as unknown as { fork: jest.Mock<FakeWorker> };
+
+const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+function forked(index: number) {
+  return cluster.fork.mock.results[index].value as FakeWorker;
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+beforeEach(() => cluster.fork.mockClear());
+
+test('restart crashed fork with backoff', async () => {
+  const supervisor = supervise(1, { supervisor: { delay: 10 } }, logger as any);
+  forked(0).emit('message', 'ready');
+  forked(0).exit(1);
+  expect(supervisor.status().forks[0].state).toBe('restarting');
+
+  await delay(20);
+  expect(cluster.fork).toBeCalledTimes(2);
+  forked(1).emit('message', 'ready');
+  expect(supervisor.status().forks).toEqual([
+    expect.objectContaining({ pid: 2, state: 'ready', restarts: 1 }),
+  ]);
+  forked(1).exit(1);
+  await delay(40); // backoff doubled
+  expect(cluster.fork).toBeCalledTimes(3);
+});
+
+test('give up restarting after repeated crashes', async () => {
+  const supervisor = supervise(
+    1,
+    { supervisor: { delay: 1, maxDelay: 1, maxRestarts: 2 } },
+    logger as any,
+  );
+  for (let i = 0; i < 2; i++) {
+    forked(i).exit(1);
+    await delay(10);
+  }
+  forked(2).exit(1);
+  await delay(10);
+
+  expect(cluster.fork).toBeCalledTimes(3);
+  expect(supervisor.status()).toEqual(
+    expect.objectContaining({
+      forks: [expect.objectContaining({ state: 'crashed' })],
+      crashLoop: true,
+    }),
+  );
+});
+
+test('reload forks one at a time, keeping others serving', async () => {
+  const supervisor = supervise(2, {}, logger as any);
+  forked(0).emit('message', 'ready');
+  forked(1).emit('message', 'ready');
+
+  const reloading = supervisor.reload();
+  expect(supervisor.status().reloading).toBe(true);
+  expect(cluster.fork).toBeCalledTimes(3);
+  expect(forked(0).isDead()).toBe(false); // until the replacement is ready
+  forked(2).emit('message', 'ready');
+  await delay(0);
+
+  expect(forked(0).isDead()).toBe(true);
+  expect(forked(1).isDead()).toBe(false);
+  expect(cluster.fork).toBeCalledTimes(4);
+  forked(3).emit('message', 'ready');
+  await reloading;
+
+  expect(forked(1).isDead()).toBe(true);
+  expect(supervisor.status()).toEqual(
+    expect.objectContaining({
+      forks: [
+        expect.objectContaining({ pid: 3, state: 'ready', restarts: 0 }),
+        expect.objectContaining({ pid: 4, state: 'ready', restarts: 0 }),
+      ],
+      reloading: false,
+    }),
+  );
+});
+
+test('abort reload if a replacement is not ready', async () => {
+  const supervisor = supervise(
+    2,
+    { supervisor: { readyTimeout: 10 } },
+    logger as any,
+  );
+  forked(0).emit('message', 'ready');
+  forked(1).emit('message', 'ready');
+
+  await supervisor.reload();
+  expect(cluster.fork).toBeCalledTimes(3);
+  expect(forked(2).isDead()).toBe(true);
+  expect(forked(0).isDead()).toBe(false);
+  expect(forked(1).isDead()).toBe(false);
+});
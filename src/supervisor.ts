@@ -0,0 +1,226 @@
+import type { Worker } from 'cluster';
+import type { Logger } from 'pino';
+import type { IBaseConfig } from './interface';
+import type { Nullable } from './utils';
+
+import * as _cluster from 'cluster';
+
+import { isShuttingDown, stopFork } from './shutdown';
+
+const cluster = _cluster as unknown as _cluster.Cluster;
+
+export type ForkState =
+  | 'starting'
+  | 'ready'
+  | 'restarting' // waiting for backoff
+  | 'crashed'; // crash loop, not restarted
+
+export interface IForkStatus {
+  pid: number;
+  state: ForkState;
+  since: number;
+  restarts: number;
+}
+
+export interface IClusterStatus {
+  forks: IForkStatus[];
+  crashLoop: boolean;
+  reloading: boolean;
+}
+
+interface ISlot {
+  worker: Nullable<Worker>;
+  state: ForkState;
+  since: number;
+  restarts: number;
+  crashes: number[];
+}
+
+let supervisor: Nullable<Supervisor>;
+
+// status broadcast by the primary process
+let received: Nullable<IClusterStatus>;
+
+if (cluster.isWorker) {
+  process.on('message', (message: { cluster?: IClusterStatus }) => {
+    if (message?.cluster) received = message.cluster;
+  });
+}
+
+/**
+ * tell the primary process this fork is able to serve
+ */
+export function reportReady() {
+  if (cluster.isWorker) process.send('ready');
+}
+
+/**
+ * status of cluster forks, if running in a cluster
+ */
+export function clusterStatus(): Nullable<IClusterStatus> {
+  return supervisor ? supervisor.status() : received;
+}
+
+/**
+ * fork processes, restart crashed ones with backoff,
+ * and replace them one at a time on SIGHUP
+ */
+class Supervisor {
+  private readonly slots: ISlot[] = [];
+  private reloading = false;
+
+  constructor(
+    private readonly config: IBaseConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  start(count: number) {
+    for (let i = 0; i < count; i++) {
+      const slot: ISlot = {
+        worker: undefined,
+        state: 'starting',
+        since: Date.now(),
+        restarts: 0,
+        crashes: [],
+      };
+      this.slots.push(slot);
+      this.attach(slot, cluster.fork());
+    }
+    process.on('SIGHUP', () =>
+      this.reload().catch((e) => this.logger.error(e, e.message)),
+    );
+  }
+
+  status(): IClusterStatus {
+    return {
+      forks: this.slots.map((slot) => ({
+        pid: slot.worker?.process.pid,
+        state: slot.state,
+        since: slot.since,
+        restarts: slot.restarts,
+      })),
+      crashLoop: !!this.slots.find((slot) => slot.state === 'crashed'),
+      reloading: this.reloading,
+    };
+  }
+
+  /**
+   * replace forks one at a time, each after its replacement reports ready
+   */
+  async reload() {
+    if (this.reloading || isShuttingDown()) return;
+    const { readyTimeout = 60 * 1000 } = this.config.supervisor || {};
+    this.logger.info('Reloading forks ...');
+    this.reloading = true;
+    this.broadcast();
+    try {
+      for (const slot of this.slots) {
+        const worker = cluster.fork();
+        if (!(await this.waitReady(worker, readyTimeout))) {
+          this.logger.error(
+            `Fork ${worker.process.pid} exited or not ready in ${readyTimeout}ms, reload aborted`,
+          );
+          worker.process.kill('SIGKILL');
+          return;
+        }
+        const old = slot.worker;
+        slot.crashes = [];
+        this.attach(slot, worker, 'ready');
+        if (old) {
+          await stopFork(old, this.config.shutdown?.timeout || 30 * 1000);
+        }
+      }
+      this.logger.info('Reloaded forks');
+    } finally {
+      this.reloading = false;
+      this.broadcast();
+    }
+  }
+
+  private attach(slot: ISlot, worker: Worker, state: ForkState = 'starting') {
+    slot.worker = worker;
+    slot.state = state;
+    slot.since = Date.now();
+    worker.on('message', (message) => {
+      if (message === 'ready' && slot.worker === worker) {
+        slot.state = 'ready';
+        this.broadcast();
+      }
+    });
+    worker.once('exit', (code, signal) => {
+      // replaced on reload, or stopped on shutdown
+      if (slot.worker !== worker || isShuttingDown()) return;
+      this.restart(slot, signal || code);
+    });
+    this.broadcast();
+  }
+
+  private restart(slot: ISlot, reason: string | number) {
+    const {
+      delay = 1000,
+      maxDelay = 30 * 1000,
+      maxRestarts = 5,
+      window = 60 * 1000,
+    } = this.config.supervisor || {};
+    const pid = slot.worker.process.pid;
+    const now = Date.now();
+    slot.worker = undefined;
+    slot.crashes = [...slot.crashes.filter((at) => at > now - window), now];
+    if (slot.crashes.length > maxRestarts) {
+      this.logger.error(
+        `Fork ${pid} exited with ${reason}, crashed ${slot.crashes.length} times in ${window}ms, not restarting`,
+      );
+      slot.state = 'crashed';
+      this.broadcast();
+      return;
+    }
+
+    const backoff = Math.min(delay * 2 ** (slot.crashes.length - 1), maxDelay);
+    this.logger.warn(
+      `Fork ${pid} exited with ${reason}, restarting in ${backoff}ms`,
+    );
+    slot.state = 'restarting';
+    this.broadcast();
+    setTimeout(() => {
+      if (isShuttingDown() || slot.worker) return;
+      slot.restarts++;
+      this.attach(slot, cluster.fork());
+    }, backoff);
+  }
+
+  private waitReady(worker: Worker, timeout: number) {
+    return new Promise<boolean>((resolve) => {
+      const done = (ready: boolean) => {
+        clearTimeout(timer);
+        worker.off('message', onMessage);
+        worker.off('exit', onExit);
+        resolve(ready);
+      };
+      const onMessage = (message: unknown) => message === 'ready' && done(true);
+      const onExit = () => done(false);
+      const timer = setTimeout(() => done(false), timeout);
+      worker.on('message', onMessage);
+      worker.once('exit', onExit);
+    });
+  }
+
+  // forks serving health checks see the status of the cluster
+  private broadcast() {
+    const message = { cluster: this.status() };
+    for (const worker of Object.values(cluster.workers || {})) {
+      if (worker.isConnected()) worker.send(message);
+    }
+  }
+}
+
+/**
+ * supervise forks of this primary process
+ * @param count number of forks
+ * @param config IBaseConfig
+ * @param logger Logger
+ */
+export function supervise(count: number, config: IBaseConfig, logger: Logger) {
+  supervisor = new Supervisor(config, logger);
+  supervisor.start(count);
+  return supervisor;
+}
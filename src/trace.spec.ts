@@ -0,0 +1,33 @@
+import {
+  currentTrace,
+  formatTraceparent,
+  parseTraceparent,
+  runInSpan,
+  startSpan,
+} from './trace';
+
+test('parse and format traceparent', () => {
+  const header = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+  const context = parseTraceparent(header);
+  expect(context).toEqual({
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    sampled: true,
+  });
+  expect(formatTraceparent(context)).toBe(header);
+  expect(parseTraceparent('00-invalid')).toBeUndefined();
+  expect(
+    parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01'),
+  ).toBeUndefined();
+});
+
+test('continue trace of the current span', () => {
+  const parent = startSpan('parent');
+  runInSpan(parent, () => {
+    expect(currentTrace()).toBe(parent);
+    const child = startSpan('child');
+    expect(child.traceId).toBe(parent.traceId);
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(child.spanId).not.toBe(parent.spanId);
+  });
+});
@@ -0,0 +1,254 @@
+import type { IBaseConfig } from './interface';
+import type { Nullable } from './utils';
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { appendFile } from 'fs/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { URL } from 'url';
+
+import { onShutdown } from './shutdown';
+
+// see https://www.w3.org/TR/trace-context/#traceparent-header
+export interface ITraceContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+export type SpanKind =
+  | 'internal'
+  | 'server'
+  | 'client'
+  | 'producer'
+  | 'consumer';
+
+export interface ISpan extends ITraceContext {
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  start: number;
+  end?: number;
+  attributes: Record<string, string | number | boolean>;
+  error?: string;
+}
+
+type ITracingConfig = IBaseConfig['tracing'];
+
+const kinds: SpanKind[] = [
+  'internal',
+  'server',
+  'client',
+  'producer',
+  'consumer',
+];
+
+const storage = new AsyncLocalStorage<ITraceContext>();
+
+let exporter: Nullable<Exporter>;
+
+function randomHex(bytes: number) {
+  return randomBytes(bytes).toString('hex');
+}
+
+function toNano(ms: number) {
+  return `${ms}000000`;
+}
+
+function toAttributes(attributes: ISpan['attributes']) {
+  return Object.keys(attributes).map((key) => {
+    const value = attributes[key];
+    switch (typeof value) {
+      case 'number':
+        return { key, value: { doubleValue: value } };
+      case 'boolean':
+        return { key, value: { boolValue: value } };
+      default:
+        return { key, value: { stringValue: String(value) } };
+    }
+  });
+}
+
+/**
+ * buffer finished spans, and export them in OTLP JSON format
+ * to a collector or a file
+ */
+class Exporter {
+  private buffer: ISpan[] = [];
+  private readonly timer: NodeJS.Timeout;
+
+  constructor(private readonly config: ITracingConfig) {
+    this.timer = setInterval(() => this.flush(), 5 * 1000);
+    this.timer.unref();
+  }
+
+  add(span: ISpan) {
+    this.buffer.push(span);
+    if (this.buffer.length >= 100) this.flush();
+  }
+
+  async flush() {
+    if (!this.buffer.length) return;
+    const spans = this.buffer;
+    this.buffer = [];
+    const body = JSON.stringify(this.toOtlp(spans));
+    try {
+      if (this.config.file) await appendFile(this.config.file, body + '\n');
+      if (this.config.endpoint) await this.post(body);
+    } catch (e) {
+      // tracing must not break serving
+    }
+  }
+
+  close() {
+    clearInterval(this.timer);
+    return this.flush();
+  }
+
+  private toOtlp(spans: ISpan[]) {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toAttributes({
+              'service.name': this.config.service || 'node-server-template',
+            }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: 'node-server-template' },
+              spans: spans.map((s) => ({
+                traceId: s.traceId,
+                spanId: s.spanId,
+                parentSpanId: s.parentSpanId,
+                name: s.name,
+                kind: kinds.indexOf(s.kind) + 1,
+                startTimeUnixNano: toNano(s.start),
+                endTimeUnixNano: toNano(s.end),
+                attributes: toAttributes(s.attributes),
+                status: s.error ? { code: 2, message: s.error } : { code: 1 },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  private post(body: string) {
+    const url = new URL(this.config.endpoint);
+    const request = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    return new Promise<void>((resolve, reject) => {
+      const req = request(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            ...this.config.headers,
+            'content-type': 'application/json',
+            'content-length': Buffer.byteLength(body),
+          },
+        },
+        (res) => {
+          res.resume();
+          res.on('end', resolve);
+        },
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+}
+
+/**
+ * export spans as configured, or only propagate trace context if not
+ * @param config tracing config
+ */
+export function configureTracing(config?: ITracingConfig) {
+  if (config && (config.endpoint || config.file)) {
+    exporter = new Exporter(config);
+    onShutdown('close', () => exporter.close());
+  }
+}
+
+export function parseTraceparent(header?: string): Nullable<ITraceContext> {
+  const matched = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/.exec(
+    (header || '').trim(),
+  );
+  if (!matched || /^0+$/.test(matched[1]) || /^0+$/.test(matched[2])) return;
+  return {
+    traceId: matched[1],
+    spanId: matched[2],
+    sampled: (parseInt(matched[3], 16) & 1) === 1,
+  };
+}
+
+export function formatTraceparent({ traceId, spanId, sampled }: ITraceContext) {
+  return `00-${traceId}-${spanId}-${sampled ? '01' : '00'}`;
+}
+
+/**
+ * trace context of the running span
+ */
+export function currentTrace() {
+  return storage.getStore();
+}
+
+/**
+ * start a span, continuing the trace of parent if any
+ * @param name string
+ * @param parent ITraceContext
+ * @param kind SpanKind
+ * @param attributes object
+ */
+export function startSpan(
+  name: string,
+  parent: Nullable<ITraceContext> = currentTrace(),
+  kind: SpanKind = 'internal',
+  attributes: ISpan['attributes'] = {},
+): ISpan {
+  return {
+    traceId: parent?.traceId || randomHex(16),
+    spanId: randomHex(8),
+    parentSpanId: parent?.spanId,
+    sampled: parent ? parent.sampled : true,
+    name,
+    kind,
+    start: Date.now(),
+    attributes,
+  };
+}
+
+export function endSpan(span: ISpan, error?: Error | string) {
+  span.end = Date.now();
+  if (error) span.error = typeof error === 'string' ? error : error.message;
+  if (span.sampled) exporter?.add(span);
+}
+
+/**
+ * run callback with span as the current trace context
+ */
+export function runInSpan<T>(span: ITraceContext, callback: () => T) {
+  return storage.run(span, callback);
+}
+
+/**
+ * run callback in a child span of the current trace
+ * @param name string
+ * @param callback function
+ */
+export async function traced<T>(
+  name: string,
+  callback: () => T | Promise<T>,
+): Promise<T> {
+  const span = startSpan(name);
+  try {
+    const result = await runInSpan(span, callback);
+    endSpan(span);
+    return result;
+  } catch (e) {
+    endSpan(span, e);
+    throw e;
+  }
+}
@@ -0,0 +1,184 @@
+import { EventEmitter } from 'events';
+import RedisMock = require('ioredis-mock');
+
+import {
+  inTransaction,
+  jobContext,
+  jobOptions,
+  jobOwner,
+  laneConcurrency,
+  matchPath,
+  readJob,
+  relay,
+  saveProgress,
+  stripPrefix,
+  waitTime,
+} from './utils';
+
+test('match named parameters', () => {
+  expect(matchPath('/users/:id', '/users/5/')).toEqual({ id: '5' });
+  expect(matchPath('/users/:id/posts/:postId', '/users/5/posts/a%20b')).toEqual(
+    { id: '5', postId: 'a b' },
+  );
+  expect(matchPath('/users/:id', '/users/5/posts')).toBeUndefined();
+});
+
+test('match optional parameters', () => {
+  expect(matchPath('/users/:id?', '/users')).toEqual({});
+  expect(matchPath('/users/:id?', '/users/5')).toEqual({ id: '5' });
+});
+
+test('match wildcards', () => {
+  expect(matchPath('*', '/')).toEqual({ 0: '' });
+  expect(matchPath('/files/*', '/files/a/b.txt')).toEqual({ 0: 'a/b.txt' });
+  expect(matchPath('/files/:dir/*.png', '/files/img/logo.png')).toEqual({
+    dir: 'img',
+    0: 'logo',
+  });
+});
+
+test('strip prefix at segment boundary', () => {
+  expect(stripPrefix('/api/v1/users/5', '/api/v1')).toBe('/users/5');
+  expect(stripPrefix('/api/v1', 'api/v1/')).toBe('/');
+  expect(stripPrefix('/api/v10/users', '/api/v1')).toBeUndefined();
+});
+
+test('relay job chunks as server-sent events', async () => {
+  const chunks: string[] = [];
+  const raw = Object.assign(new EventEmitter(), {
+    write: (chunk: string) => chunks.push(chunk),
+    end: jest.fn(),
+  });
+  const queue = { removeJob: jest.fn() } as any;
+  const job = Object.assign(new EventEmitter(), { id: '1' }) as any;
+
+  const promise = relay(queue, job, { raw } as any, 1000, 1000);
+  job.emit('progress', { event: 'message', data: 'Hello' });
+  job.emit('succeeded', { statusCode: 200, result: 'Done' });
+  await promise;
+
+  expect(chunks).toEqual([
+    'event: message\ndata: "Hello"\n\n',
+    'event: result\ndata: {"statusCode":200,"result":"Done"}\n\n',
+  ]);
+  expect(raw.end).toBeCalled();
+  expect(queue.removeJob).not.toBeCalled();
+});
+
+test('retry idempotent methods only', () => {
+  const mapper = { path: '/*', queue: 'default', retries: 2 };
+  expect(jobOptions(mapper, 'GET').retries).toBe(2);
+  expect(jobOptions(mapper, 'POST').retries).toBe(0);
+  expect(jobOptions({ ...mapper, retryUnsafe: true }, 'POST').retries).toBe(2);
+});
+
+test('wait for all attempts', () => {
+  expect(waitTime({ retries: 0 }, 1000)).toBe(1000);
+  expect(
+    waitTime(
+      {
+        timeout: 500,
+        retries: 2,
+        backoff: { strategy: 'exponential', delay: 100 },
+      },
+      1000,
+    ),
+  ).toBe(1500 + 100 + 200);
+});
+
+test('process every lane unless disabled', () => {
+  expect(laneConcurrency('default')).toEqual({
+    'default:high': 1,
+    default: 1,
+    'default:low': 1,
+  });
+  expect(laneConcurrency('default', { high: 4, low: 0 })).toEqual({
+    'default:high': 4,
+    default: 1,
+  });
+});
+
+test('roll back transaction of cancelled job', async () => {
+  const transaction = { commit: jest.fn(), rollback: jest.fn() };
+  const sequelize = { transaction: async () => transaction } as any;
+  const controller = new AbortController();
+  const context = { emit: jest.fn(), signal: controller.signal };
+
+  const promise = jobContext.run(context, () =>
+    inTransaction(sequelize, async () => {
+      controller.abort(new Error('Job Cancelled'));
+      return 'Done';
+    }),
+  );
+
+  await expect(promise).rejects.toThrow('Job Cancelled');
+  expect(transaction.rollback).toBeCalled();
+  expect(transaction.commit).not.toBeCalled();
+});
+
+test('read job status without keeping the job', async () => {
+  const redis = {
+    hget: jest.fn(async (key: string, id: string) =>
+      id === '1'
+        ? JSON.stringify({ data: { async: true }, status: 'created' })
+        : null,
+    ),
+    lrange: async () => [],
+    get: async () => null,
+  } as any;
+  const queue = {
+    name: 'default',
+    settings: { keyPrefix: 'bq:default:' },
+    jobs: new Map(),
+  };
+
+  expect(await readJob(redis, queue as any, '1')).toEqual({
+    id: '1',
+    data: { async: true },
+    status: 'created',
+    progress: undefined,
+  });
+  expect(redis.hget).toBeCalledWith('bq:default:jobs', '1');
+  expect(await readJob(redis, queue as any, '2')).toBeUndefined();
+  expect(queue.jobs.size).toBe(0);
+});
+
+test('read progress of running job', async () => {
+  const redis = new RedisMock();
+  const queue = { name: 'default', settings: { keyPrefix: 'bq:default:' } };
+  const job = { data: { async: true }, status: 'created', progress: 0 };
+  await redis.hset('bq:default:jobs', '1', JSON.stringify(job));
+  await redis.lpush('bq:default:active', '1');
+  await saveProgress(
+    redis,
+    'default',
+    '1',
+    { event: 'progress', data: 50 },
+    60,
+  );
+
+  expect(await readJob(redis, queue as any, '1')).toEqual({
+    id: '1',
+    data: { async: true },
+    status: 'active',
+    progress: { event: 'progress', data: 50 },
+  });
+
+  // finished, and removed from active list
+  await redis.lrem('bq:default:active', 0, '1');
+  await redis.hset(
+    'bq:default:jobs',
+    '1',
+    JSON.stringify({ ...job, status: 'succeeded' }),
+  );
+  expect(await readJob(redis, queue as any, '1')).toEqual(
+    expect.objectContaining({ status: 'succeeded' }),
+  );
+});
+
+test('own job by user, or device if anonymous', () => {
+  const user = { id: 1 };
+  expect(jobOwner({ user, extra: { device: 'a' } })).toBe('user:1');
+  expect(jobOwner({ extra: { device: 'a' } })).toBe('device:a');
+  expect(jobOwner({ extra: {} })).toBeUndefined();
+});
@@ -5,12 +5,28 @@ import type { Sequelize } from 'sequelize-typescript';
 
 import Queue = require('bee-queue');
 import { FastifyBaseLogger, FastifyReply } from 'fastify';
+import Redis from 'ioredis';
 import { BadRequest, HttpError } from 'http-errors';
 import * as httpErrors from 'http-errors';
 import httpStatus = require('http-status');
 import { DateTime } from 'luxon';
+import { AsyncLocalStorage } from 'async_hooks';
 
-import { ICache, IJwtPayload, IMapper, IResponse, IUser } from './interface';
+import { publishCancel } from './cancel';
+import { queueTimeouts, queueWait } from './metrics';
+import { onShutdown } from './shutdown';
+import { traced } from './trace';
+import {
+  IBackoff,
+  ICache,
+  IContext,
+  IFieldError,
+  IJwtPayload,
+  IMapper,
+  IResponse,
+  IUser,
+  JobPriority,
+} from './interface';
 import { match } from 'node-match-path';
 import type { URL } from 'url';
 import {
@@ -26,13 +42,19 @@ const queues: Record<'server' | 'worker', Record<string, Queue>> = {
   worker: {},
 };
 
+let redis: Nullable<Redis>;
+
+// results being waited for by this gateway
+const pending = new Set<Promise<unknown>>();
+
 // close queue connections
-process.on('beforeExit', () => {
+onShutdown('close', () =>
   Promise.allSettled([
     ...Object.values(queues.server).map((q) => q.close()),
     ...Object.values(queues.worker).map((q) => q.close()),
-  ]);
-});
+    redis?.quit(),
+  ]),
+);
 
 type Result<T> = {
   result?: T;
@@ -76,13 +98,16 @@ export class MyError extends Error {
 }
 
 export class ValidationError extends MyError {
-  constructor(errors?: string[]) {
+  constructor(errors?: Array<string | IFieldError>) {
     super(new BadRequest('Validation Error'), errors);
   }
 }
 
 export type Nullable<T, N = undefined> = T | N;
 
+// context of the job being processed by this worker
+export const jobContext = new AsyncLocalStorage<IContext>();
+
 export function connectQueue(
   type: 'server' | 'worker',
   key: string,
@@ -93,6 +118,7 @@ export function connectQueue(
   if (!queue) {
     queue = queues[type][key] = new Queue(key, {
       isWorker: type === 'worker',
+      activateDelayedJobs: type === 'worker', // retry with backoff
       redis: redisConfig,
     });
     logger.info(`Queue '${key}' connecting ...`);
@@ -101,25 +127,254 @@ export function connectQueue(
   return queue;
 }
 
+/**
+ * stop processing jobs, waiting for active jobs to finish
+ * @param timeout number in milliseconds
+ */
+export function closeWorkers(timeout: number) {
+  return Promise.allSettled(
+    Object.values(queues.worker).map((q) => q.close(timeout)),
+  );
+}
+
+/**
+ * queue name of a priority
+ * @param queue string queue name
+ * @param priority JobPriority
+ */
+export function laneKey(queue: string, priority: JobPriority = 'normal') {
+  return priority === 'normal' ? queue : `${queue}:${priority}`;
+}
+
+/**
+ * jobs processed at once per lane of a queue, every lane by default
+ * @param queue string queue name
+ * @param concurrency jobs processed at once per priority, 0 not processing
+ */
+export function laneConcurrency(
+  queue: string,
+  concurrency: Partial<Record<JobPriority, number>> = {},
+) {
+  const result: Record<string, number> = {};
+  for (const priority of ['high', 'normal', 'low'] as JobPriority[]) {
+    const count = concurrency[priority] ?? 1;
+    if (count > 0) result[laneKey(queue, priority)] = count;
+  }
+  return result;
+}
+
+export interface IJobOptions {
+  timeout?: number;
+  retries: number;
+  backoff?: IBackoff;
+}
+
+const idempotentMethods = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/**
+ * job options of a mapper
+ * @param mapper IMapper
+ * @param method string request method
+ */
+export function jobOptions(mapper: IMapper, method: string): IJobOptions {
+  const retryable =
+    mapper.retryUnsafe || idempotentMethods.indexOf(method) > -1;
+  return {
+    timeout: mapper.timeout,
+    retries: (retryable && mapper.retries) || 0,
+    backoff: mapper.backoff,
+  };
+}
+
+export function createJob<T>(
+  queue: Queue,
+  data: T,
+  { timeout, retries, backoff }: IJobOptions,
+): Promise<Job<T>> {
+  const job = queue.createJob(data);
+  if (timeout) job.timeout(timeout);
+  if (retries) {
+    job.retries(retries);
+    if (backoff) job.backoff(backoff.strategy, backoff.delay);
+  }
+  return job.save();
+}
+
+/**
+ * time to wait for the result of all attempts
+ * @param options IJobOptions
+ * @param timeout number default timeout per attempt
+ */
+export function waitTime(
+  { timeout: timeout_, retries, backoff }: IJobOptions,
+  timeout: number,
+) {
+  let result = (timeout_ || timeout) * (retries + 1);
+  for (let i = 0; backoff && i < retries; i++) {
+    result +=
+      backoff.strategy === 'exponential'
+        ? backoff.delay * 2 ** i
+        : backoff.delay;
+  }
+  return result;
+}
+
+export function connectRedis(redisConfig: any) {
+  if (!redis) redis = new Redis(redisConfig);
+  return redis;
+}
+
+function resultKey(queue: string, id: string) {
+  return `jobs:${queue}:${id}`;
+}
+
+function progressKey(queue: string, id: string) {
+  return `jobs:${queue}:${id}:progress`;
+}
+
+/**
+ * keep job result for job status resource
+ * @param redis Redis
+ * @param queue string queue name
+ * @param id string job id
+ * @param result IResponse
+ * @param ttl number in seconds
+ */
+export async function saveResult(
+  redis: Redis,
+  queue: string,
+  id: string,
+  result: IResponse,
+  ttl: number,
+) {
+  await redis.set(resultKey(queue, id), JSON.stringify(result), 'EX', ttl);
+}
+
+export async function loadResult(
+  redis: Redis,
+  queue: string,
+  id: string,
+): Promise<Nullable<IResponse>> {
+  const result = await redis.get(resultKey(queue, id));
+  return result ? JSON.parse(result) : undefined;
+}
+
+/**
+ * keep the last chunk emitted by a running job for job status resource,
+ * as bee-queue only publishes progress
+ * @param redis Redis
+ * @param queue string queue name
+ * @param id string job id
+ * @param progress any
+ * @param ttl number in seconds
+ */
+export async function saveProgress(
+  redis: Redis,
+  queue: string,
+  id: string,
+  progress: any,
+  ttl: number,
+) {
+  await redis.set(progressKey(queue, id), JSON.stringify(progress), 'EX', ttl);
+}
+
+export interface IJobStatus<T> {
+  id: string;
+  data: T;
+  status: Job<T>['status'] | 'active';
+  progress: any;
+}
+
+/**
+ * read job status from redis, as queue.getJob keeps the job in memory
+ * for events that never come to finished jobs,
+ * and bee-queue writes the job only when saved and finished
+ * @param redis Redis
+ * @param queue Queue
+ * @param id string job id
+ */
+export async function readJob<T>(
+  redis: Redis,
+  queue: Queue,
+  id: string,
+): Promise<Nullable<IJobStatus<T>>> {
+  const [value, active, progress] = await Promise.all([
+    redis.hget(`${queue.settings.keyPrefix}jobs`, id),
+    redis.lrange(`${queue.settings.keyPrefix}active`, 0, -1),
+    redis.get(progressKey(queue.name, id)),
+  ]);
+  if (!value) return;
+  const { data, status } = JSON.parse(value);
+  const running =
+    (status === 'created' || status === 'retrying') && active.includes(id);
+  return {
+    id,
+    data,
+    status: running ? 'active' : status,
+    progress: progress ? JSON.parse(progress) : undefined,
+  };
+}
+
+/**
+ * owner of a job, being the user, or the device of anonymous requests
+ * @param request IRequest of the job, or the gateway request
+ */
+export function jobOwner({ user, extra }: { user?: IUser; extra?: any }) {
+  if (user) return `user:${user.id}`;
+  if (extra?.device) return `device:${extra.device}`;
+}
+
+/**
+ * remove job from queue, and stop it if a worker is running it
+ * @param queue Queue
+ * @param id string job id
+ */
+export function cancelJob(queue: Queue, id: string) {
+  queue.removeJob(id);
+  publishCancel(connectRedis(queue.settings.redis), queue.name, id).catch(
+    () => undefined, // job expires anyway
+  );
+}
+
+/**
+ * wait for job result
+ * @param queue Queue
+ * @param job Job
+ * @param timeout number
+ * @param signal AbortSignal cancel job, e.g. on client disconnect
+ */
 export function wait<T, R = any>(
   queue: Queue,
   job: Job<T>,
   timeout: number,
+  signal?: AbortSignal,
 ): Promise<IResponse<R>> {
-  return new Promise<IResponse>((resolve, reject) => {
+  const end = queueWait.startTimer({ queue: queue.name });
+  const promise = new Promise<IResponse>((resolve, reject) => {
     const timer = setTimeout(async () => {
-      queue.removeJob(job.id);
+      signal?.removeEventListener('abort', abort);
+      cancelJob(queue, job.id);
+      queueTimeouts.inc({ queue: queue.name });
       reject(new httpErrors.GatewayTimeout());
     }, timeout);
+    const abort = () => {
+      clearTimeout(timer);
+      cancelJob(queue, job.id);
+      reject(signal.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
     job.on('succeeded', (result: IResponse) => {
       clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      end();
       if ('error' in result) {
         reject(
           new MyError(
             new httpErrors[result.statusCode](
               /* eslint-disable */ result.error ||
-              (httpStatus[`${result.statusCode}_NAME`] as string), /* eslint-enable */
-
+                (httpStatus[
+                  `${result.statusCode}_NAME`
+                ] as string) /* eslint-enable */,
             ),
             result.extra,
           ),
@@ -128,10 +383,112 @@ export function wait<T, R = any>(
         resolve(result);
       }
     });
-    job.on('failed', (e) => reject(e));
+    job.on('failed', (e) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+      end();
+      reject(e);
+    });
+  });
+  pending.add(promise);
+  const remove = () => pending.delete(promise);
+  promise.then(remove, remove);
+  return promise;
+}
+
+/**
+ * wait for results being waited for, e.g. before closing queues
+ */
+export function drainWaits() {
+  return Promise.allSettled([...pending]);
+}
+
+/**
+ * relay job chunks to client as server-sent events
+ * @param queue Queue
+ * @param job Job
+ * @param res FastifyReply hijacked reply
+ * @param timeout number
+ * @param heartbeat number
+ */
+export function relay<T>(
+  queue: Queue,
+  job: Job<T>,
+  res: FastifyReply,
+  timeout: number,
+  heartbeat: number,
+): Promise<void> {
+  return new Promise<void>((resolve) => {
+    let finished = false;
+    const send = (event: string, data: any) => {
+      res.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const finish = () => {
+      finished = true;
+      clearTimeout(timer);
+      clearInterval(beat);
+      res.raw.end();
+      resolve();
+    };
+
+    const timer = setTimeout(() => {
+      cancelJob(queue, job.id);
+      send('error', {
+        statusCode: httpStatus.GATEWAY_TIMEOUT,
+        error: httpStatus['504_NAME'],
+      });
+      finish();
+    }, timeout);
+    const beat = setInterval(() => res.raw.write(': heartbeat\n\n'), heartbeat);
+
+    // client disconnected
+    res.raw.on('close', () => {
+      if (finished) return;
+      cancelJob(queue, job.id);
+      finish();
+    });
+
+    job.on('progress', ({ event, data }) => {
+      if (!finished) send(event || 'message', data);
+    });
+    job.on('succeeded', (result: IResponse) => {
+      if (finished) return;
+      send(result && 'error' in result ? 'error' : 'result', result);
+      finish();
+    });
+    job.on('failed', (e) => {
+      if (finished) return;
+      send('error', {
+        statusCode: httpStatus.INTERNAL_SERVER_ERROR,
+        error: e.message,
+      });
+      finish();
+    });
   });
 }
 
+/**
+ * check if user has any of the roles
+ * @returns reason if forbidden
+ */
+export function checkRoles(user: IUser, roles: string[]): Nullable<string> {
+  if (roles.length && !roles.find((r) => user.roles?.includes(r))) {
+    return `Require Role ${roles.join(' or ')}`;
+  }
+}
+
+/**
+ * check if user has all of the permissions
+ * @returns reason if forbidden
+ */
+export function checkPermissions(
+  user: IUser,
+  permissions: string[],
+): Nullable<string> {
+  const missing = permissions.filter((p) => !user.permissions?.includes(p));
+  if (missing.length) return `Require Permission ${missing.join(' and ')}`;
+}
+
 export function concat(source: string, segment: string, delimit = ', ') {
   if (source) source += delimit;
   return source + segment;
@@ -150,7 +507,7 @@ export function verify(
 }
 
 export function sign(
-  payload: IUser,
+  payload: object,
   secretOrPrivateKey: Secret,
   options?: SignOptions,
 ) {
@@ -191,7 +548,16 @@ export function matchUrl(method: string, url: URL, ...args: any[]) {
 
 export function applyCache(
   res: FastifyReply,
-  { private: private_, noCache, noStore, maxAge, lastModified }: ICache,
+  {
+    private: private_,
+    noCache,
+    noStore,
+    maxAge,
+    staleWhileRevalidate,
+    lastModified,
+    etag,
+    vary,
+  }: ICache,
 ) {
   let cache = '';
   if (typeof private_ === 'boolean') {
@@ -210,10 +576,19 @@ export function applyCache(
     );
     res.header('expires', DateTime.local().plus({ second: maxAge }).toHTTP());
   }
+  if (typeof staleWhileRevalidate === 'number') {
+    cache = concat(cache, `stale-while-revalidate=${staleWhileRevalidate}`);
+  }
   if (typeof lastModified === 'string') {
     res.header('last-modified', lastModified);
   }
-  res.header('cache-control', cache);
+  if (typeof etag === 'string') {
+    res.header('etag', etag);
+  }
+  if (vary?.length) {
+    res.header('vary', vary.join(', '));
+  }
+  if (cache) res.header('cache-control', cache);
 }
 
 export function fixUrl(url: string) {
@@ -222,6 +597,78 @@ export function fixUrl(url: string) {
   return url;
 }
 
+/**
+ * remove prefix from url at segment boundary
+ * @param url string
+ * @param prefix string
+ * @returns url without prefix, or undefined if url is not under the prefix
+ */
+export function stripPrefix(url: string, prefix: string): Nullable<string> {
+  const url_ = fixUrl(url);
+  const prefix_ = fixUrl(prefix);
+  const lowerUrl = url_.toLocaleLowerCase();
+  const lowerPrefix = prefix_.toLocaleLowerCase();
+  if (lowerUrl !== lowerPrefix && !lowerUrl.startsWith(`${lowerPrefix}/`)) {
+    return undefined;
+  }
+  return url_.substring(prefix_.length) || '/';
+}
+
+function decode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * match url against path pattern
+ * supports named parameters ':id', optional parameters '/:id?' and wildcards '*'
+ * @param path string path pattern
+ * @param url string request url
+ * @returns parameters, wildcards indexed from '0', or undefined if not matched
+ */
+export function matchPath(
+  path: string,
+  url: string,
+): Nullable<Record<string, string>> {
+  const token = /\/:(\w+)\?|:(\w+)|\*/g;
+  const path_ = fixUrl(path) || '/';
+  const keys: string[] = [];
+  let source = '',
+    last = 0,
+    wildcards = 0,
+    m: RegExpExecArray;
+  while ((m = token.exec(path_))) {
+    source += escapeRegExp(path_.substring(last, m.index));
+    if (m[1]) {
+      keys.push(m[1]);
+      source += '(?:/([^/]+?))?';
+    } else if (m[2]) {
+      keys.push(m[2]);
+      source += '([^/]+?)';
+    } else {
+      keys.push(String(wildcards++));
+      source += '(.*)';
+    }
+    last = token.lastIndex;
+  }
+  source += escapeRegExp(path_.substring(last));
+
+  const result = new RegExp(`^${source}/?$`, 'i').exec(fixUrl(url) || '/');
+  if (!result) return undefined;
+  return keys.reduce(
+    (r, key, i) =>
+      result[i + 1] === undefined ? r : { ...r, [key]: decode(result[i + 1]) },
+    {} as Record<string, string>,
+  );
+}
+
 export async function logElapsed<T>(
   callback: () => T | Promise<T>,
 ): Promise<Result<T>> {
@@ -240,7 +687,9 @@ export async function logSection<T>(
   callback: () => T | Promise<T>,
 ) {
   logger.debug({ func }, 'start');
-  const { result, error, start, end } = await logElapsed(callback);
+  const { result, error, start, end } = await logElapsed(() =>
+    traced(func, callback),
+  );
   if (error) {
     throw error;
   } else {
@@ -256,9 +705,14 @@ export async function inTransaction<T>(
 ): Promise<T> {
   const withTransaction = !!transaction;
   let rollback = false;
+  const signal = jobContext.getStore()?.signal;
+  signal?.throwIfAborted();
   if (!withTransaction) transaction = await sequelize.transaction();
   try {
-    return await callback(transaction);
+    const result = await callback(transaction);
+    // roll back if request is cancelled meanwhile
+    signal?.throwIfAborted();
+    return result;
   } catch (e) {
     if (!withTransaction) {
       await transaction.rollback();
@@ -0,0 +1,25 @@
+import yaml = require('js-yaml');
+import minimist = require('minimist');
+import { loadConfig, redact } from '../src/config';
+
+const argv = minimist(process.argv.slice(2));
+
+const env = argv.env || argv.E || process.env.NODE_ENV || 'development';
+const [command = 'print'] = argv._;
+
+async function run() {
+  switch (command) {
+    case 'print': {
+      const config = await loadConfig({ dir: argv.config, env });
+      console.log(yaml.dump(redact(config)));
+      break;
+    }
+    default:
+      throw new Error(`Unknown command '${command}'`);
+  }
+}
+
+run().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
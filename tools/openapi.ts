@@ -0,0 +1,24 @@
+import { promises } from 'fs';
+import minimist = require('minimist');
+import { loadConfig } from '../src/config';
+import { IMasterConfig } from '../src/interface';
+import { generate, loadRoutes } from '../src/openapi';
+const { writeFile } = promises;
+
+const argv = minimist(process.argv.slice(2));
+
+const env = argv.env || argv.E || process.env.NODE_ENV || 'development';
+const [output = 'openapi.json'] = argv._;
+
+async function run() {
+  const config = await loadConfig<IMasterConfig>({ dir: argv.config, env });
+  const queues = (config.mapper || []).map((m) => m.queue);
+  const document = generate(config, await loadRoutes(queues));
+  await writeFile(output, JSON.stringify(document, null, 2), 'utf-8');
+  console.log(`- write '${output}'`);
+}
+
+run().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});